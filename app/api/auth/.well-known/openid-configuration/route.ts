@@ -0,0 +1,16 @@
+import { authConfig } from "../../../../utils/authServer";
+
+// OIDC discovery for the app's own issuer, fetched by Convex to find the keys
+export async function GET() {
+  const config = authConfig();
+  if (!config)
+    return new Response("Sign-in is not configured", { status: 404 });
+
+  return Response.json({
+    issuer: config.issuer,
+    jwks_uri: `${config.issuer}/jwks`,
+    response_types_supported: ["id_token"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+  });
+}
@@ -0,0 +1,82 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  authConfig,
+  createSession,
+  discoverOidc,
+  LOGIN_COOKIE,
+  oidcProvider,
+  oidcUser,
+  PendingLogin,
+  SESSION_COOKIE,
+  SESSION_COOKIE_OPTIONS,
+  SESSION_MAX_AGE_SECONDS,
+  signInErrorUrl,
+} from "../../../utils/authServer";
+
+function parseLogin(value: string): PendingLogin | null {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// GET ?code=&state=: the identity provider's redirect back after sign-in.
+// Swaps the code for an ID token and starts a session for that account.
+// Failures go back to the page sign-in started from, with ?error= set.
+export async function GET(request: Request) {
+  const config = authConfig();
+  const provider = oidcProvider();
+  if (!config || !provider)
+    return new Response("Sign-in is not configured", { status: 404 });
+
+  const params = new URL(request.url).searchParams;
+  const cookieStore = await cookies();
+  const saved = cookieStore.get(LOGIN_COOKIE)?.value;
+  cookieStore.delete(LOGIN_COOKIE);
+
+  const login = saved ? parseLogin(saved) : null;
+  const code = params.get("code");
+  if (!login || !code || params.get("state") !== login.state) {
+    return NextResponse.redirect(
+      signInErrorUrl(config.issuer, login?.returnTo ?? "/", "expired"),
+    );
+  }
+
+  let user = null;
+  try {
+    const { tokenEndpoint } = await discoverOidc(provider);
+    const res = await fetch(tokenEndpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: `${config.issuer}/callback`,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: login.codeVerifier,
+      }),
+    });
+    const tokens = res.ok ? await res.json().catch(() => null) : null;
+    user =
+      typeof tokens?.id_token === "string"
+        ? oidcUser(provider, tokens.id_token, login.nonce)
+        : null;
+  } catch (err) {
+    // The provider is down or unreachable
+    console.error("Sign-in token exchange failed", err);
+  }
+  if (!user) {
+    return NextResponse.redirect(
+      signInErrorUrl(config.issuer, login.returnTo, "failed"),
+    );
+  }
+
+  cookieStore.set(SESSION_COOKIE, createSession(config, user), {
+    ...SESSION_COOKIE_OPTIONS,
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+  return NextResponse.redirect(new URL(login.returnTo, config.issuer));
+}
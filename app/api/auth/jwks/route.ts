@@ -0,0 +1,9 @@
+import { authConfig, publicJwk } from "../../../utils/authServer";
+
+export async function GET() {
+  const config = authConfig();
+  if (!config)
+    return new Response("Sign-in is not configured", { status: 404 });
+
+  return Response.json({ keys: [publicJwk(config.publicKey)] });
+}
@@ -0,0 +1,52 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  authConfig,
+  codeChallenge,
+  discoverOidc,
+  LOGIN_COOKIE,
+  LOGIN_MAX_AGE_SECONDS,
+  oidcProvider,
+  SESSION_COOKIE_OPTIONS,
+  signInErrorUrl,
+  startLogin,
+} from "../../../utils/authServer";
+
+// GET ?returnTo=/path: sends the browser to the identity provider's sign-in
+// page (authorization code flow with PKCE). It comes back to /callback.
+export async function GET(request: Request) {
+  const config = authConfig();
+  const provider = oidcProvider();
+  if (!config || !provider)
+    return new Response("Sign-in is not configured", { status: 404 });
+
+  const login = startLogin(
+    new URL(request.url).searchParams.get("returnTo") ?? "/",
+  );
+  let authorizationEndpoint: string;
+  try {
+    ({ authorizationEndpoint } = await discoverOidc(provider));
+  } catch (err) {
+    console.error("Sign-in unavailable", err);
+    return NextResponse.redirect(
+      signInErrorUrl(config.issuer, login.returnTo, "unavailable"),
+    );
+  }
+  (await cookies()).set(LOGIN_COOKIE, JSON.stringify(login), {
+    ...SESSION_COOKIE_OPTIONS,
+    maxAge: LOGIN_MAX_AGE_SECONDS,
+  });
+
+  const url = new URL(authorizationEndpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: `${config.issuer}/callback`,
+    scope: "openid profile email",
+    state: login.state,
+    nonce: login.nonce,
+    code_challenge: codeChallenge(login.codeVerifier),
+    code_challenge_method: "S256",
+  }).toString();
+  return NextResponse.redirect(url);
+}
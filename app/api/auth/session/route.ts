@@ -0,0 +1,59 @@
+import { cookies } from "next/headers";
+import {
+  authConfig,
+  createSession,
+  currentSession,
+  mockSignInEnabled,
+  mockUser,
+  oidcProvider,
+  SESSION_COOKIE,
+  SESSION_COOKIE_OPTIONS,
+  SESSION_MAX_AGE_SECONDS,
+} from "../../../utils/authServer";
+
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+
+// GET: the signed-in user and a fresh ID token for Convex, both null when
+// signed out. The browser polls this through ConvexProviderWithAuth.
+export async function GET() {
+  const session = await currentSession();
+  const mockSignIn = mockSignInEnabled();
+  const providerSignIn = oidcProvider() !== null;
+  return Response.json({
+    enabled: authConfig() !== null && (mockSignIn || providerSignIn),
+    mockSignIn,
+    providerSignIn,
+    user: session?.user ?? null,
+    token: session?.token ?? null,
+  });
+}
+
+// POST { name, email }: mock sign-in for local development, no password
+// needed. Off unless AUTH_MOCK_SIGN_IN is set, and always in production.
+export async function POST(request: Request) {
+  const config = authConfig();
+  if (!config || !mockSignInEnabled())
+    return new Response("Mock sign-in is not enabled", { status: 404 });
+
+  const body = await request.json().catch(() => null);
+  const email = typeof body?.email === "string" ? body.email.trim() : "";
+  const name = typeof body?.name === "string" ? body.name : "";
+  if (!EMAIL.test(email)) {
+    return Response.json(
+      { error: "Enter a valid email address." },
+      { status: 400 },
+    );
+  }
+
+  (await cookies()).set(
+    SESSION_COOKIE,
+    createSession(config, mockUser(name, email)),
+    { ...SESSION_COOKIE_OPTIONS, maxAge: SESSION_MAX_AGE_SECONDS },
+  );
+  return GET();
+}
+
+export async function DELETE() {
+  (await cookies()).delete(SESSION_COOKIE);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,70 @@
+import { fetchQuery } from "convex/nextjs";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  EMBED_HEIGHT,
+  EMBED_THEMES,
+  EMBED_WIDTH,
+  EmbedTheme,
+  embedCode,
+} from "../../utils/embed";
+
+// Poll and embed pages both resolve to the same widget.
+const POLL_PATH = /^\/(?:poll|embed)\/([^/]+)\/?$/;
+
+function parseSize(value: string | null, fallback: number) {
+  const size = Number(value);
+  return value && Number.isInteger(size) && size > 0
+    ? Math.min(size, fallback)
+    : fallback;
+}
+
+// oEmbed provider (https://oembed.com) for poll links:
+// GET /api/oembed?url=https://<host>/poll/<pollId>[&maxwidth=&maxheight=]
+export async function GET(request: Request) {
+  const { searchParams, origin } = new URL(request.url);
+
+  if ((searchParams.get("format") ?? "json") !== "json") {
+    return new Response("Only JSON is supported", { status: 501 });
+  }
+
+  let target: URL;
+  try {
+    target = new URL(searchParams.get("url") ?? "");
+  } catch {
+    return new Response("Missing or invalid url", { status: 400 });
+  }
+  const match = target.pathname.match(POLL_PATH);
+  if (!match) {
+    return new Response("Not a poll URL", { status: 404 });
+  }
+
+  const pollId = match[1] as Id<"polls">;
+  // Malformed ids fail argument validation, which is just another miss
+  const poll = await fetchQuery(api.polls.get, { pollId }).catch(() => null);
+  if (!poll) {
+    return new Response("Poll not found", { status: 404 });
+  }
+
+  const requestedTheme = target.searchParams.get("theme") as EmbedTheme;
+  const width = parseSize(searchParams.get("maxwidth"), EMBED_WIDTH);
+  const height = parseSize(searchParams.get("maxheight"), EMBED_HEIGHT);
+
+  return Response.json({
+    version: "1.0",
+    type: "rich",
+    provider_name: "Real-Time Polling App",
+    provider_url: origin,
+    title: poll.question,
+    html: embedCode({
+      origin,
+      pollId,
+      title: poll.question,
+      theme: EMBED_THEMES.includes(requestedTheme) ? requestedTheme : "light",
+      width,
+      height,
+    }),
+    width,
+    height,
+  });
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  signInWithMock,
+  signInWithProvider,
+  signOut,
+  useAuthSession,
+} from "../utils/auth";
+
+interface AccountMenuProps {
+  // Shown above the sign-in form, e.g. why this poll needs it
+  prompt?: string;
+  className?: string;
+}
+
+// Sign-in through the identity provider, or the development-only mock form
+// (see utils/authServer.ts). Renders nothing when sign-in isn't configured.
+export default function AccountMenu({ prompt, className }: AccountMenuProps) {
+  const session = useAuthSession();
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!session?.enabled) return null;
+
+  if (session.user) {
+    return (
+      <div
+        className={`flex items-center justify-between gap-3 text-sm text-gray-600 ${className ?? ""}`}
+      >
+        <span className="truncate">
+          Signed in as{" "}
+          <span className="font-semibold text-gray-900">
+            {session.user.name}
+          </span>
+        </span>
+        <button
+          onClick={() => signOut().then(() => router.refresh())}
+          className="text-sm font-semibold text-blue-600 hover:text-blue-500"
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpen && !prompt) {
+    return (
+      <div className={className}>
+        <button
+          onClick={() =>
+            session.mockSignIn ? setIsOpen(true) : signInWithProvider()
+          }
+          className="text-sm font-semibold text-blue-600 hover:text-blue-500"
+        >
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      await signInWithMock(name, email);
+      // Server-rendered pages can depend on who's signed in
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Sign-in failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const providerButton = session.providerSignIn && (
+    <button
+      type="button"
+      onClick={signInWithProvider}
+      className="w-full rounded-lg bg-black px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 transition-all"
+    >
+      Sign In
+    </button>
+  );
+
+  if (!session.mockSignIn) {
+    return (
+      <div className={`space-y-2 ${className ?? ""}`}>
+        {prompt && <p className="text-sm text-gray-600">{prompt}</p>}
+        {providerButton}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`space-y-2 ${className ?? ""}`}>
+      {prompt && <p className="text-sm text-gray-600">{prompt}</p>}
+      {providerButton}
+      <p className="text-xs text-gray-500">
+        Development sign-in: any name and email, no password.
+      </p>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        autoComplete="name"
+        className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+      />
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        autoComplete="email"
+        required
+        className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+      />
+      <button
+        type="submit"
+        disabled={isBusy}
+        className="w-full rounded-lg bg-black px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {isBusy ? "Signing in..." : "Sign In as Test User"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface AnalyticsViewProps {
+  pollId: Id<"polls">;
+  accessToken?: string;
+}
+
+// One colour per option, repeating for long polls
+const COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#db2777"];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+function formatPeriod(start: number, periodMs: number) {
+  const date = new Date(start);
+  return periodMs >= 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString()
+    : date.toLocaleString([], {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+      });
+}
+
+function Breakdown({
+  title,
+  items,
+  total,
+}: {
+  title: string;
+  items: { name: string; count: number }[];
+  total: number;
+}) {
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-500 mb-1">{title}</h4>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.name} className="text-xs">
+            <div className="flex justify-between text-gray-700">
+              <span className="capitalize">{item.name}</span>
+              <span className="tabular-nums">{item.count}</span>
+            </div>
+            <div className="w-full bg-gray-100 rounded-full h-1.5 overflow-hidden">
+              <div
+                className="bg-gray-500 h-1.5 rounded-full"
+                style={{ width: `${(item.count / total) * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function AnalyticsView({
+  pollId,
+  accessToken,
+}: AnalyticsViewProps) {
+  const analytics = useQuery(api.analytics.get, { pollId, accessToken });
+
+  if (analytics === undefined) {
+    return <div className="h-40 bg-gray-100 rounded animate-pulse" />;
+  }
+  if (analytics === null || analytics.totalVotes === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Analytics appear once votes come in.
+      </p>
+    );
+  }
+
+  const { timeline, periodMs, totalVotes } = analytics;
+  const maxCumulative = Math.max(1, ...timeline.flatMap((p) => p.cumulative));
+  const maxVotes = Math.max(1, ...timeline.map((p) => p.votes));
+  const x = (i: number) =>
+    timeline.length > 1 ? (i / (timeline.length - 1)) * CHART_WIDTH : 0;
+  const y = (count: number) =>
+    CHART_HEIGHT - (count / maxCumulative) * CHART_HEIGHT;
+  const period = periodMs >= 24 * 60 * 60 * 1000 ? "day" : "hour";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">
+          Votes over time
+        </h3>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-32 overflow-visible"
+          preserveAspectRatio="none"
+        >
+          {analytics.options.map((_, option) => (
+            <polyline
+              key={option}
+              fill="none"
+              stroke={COLORS[option % COLORS.length]}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              points={timeline
+                .map((p, i) => `${x(i)},${y(p.cumulative[option])}`)
+                .join(" ")}
+            />
+          ))}
+        </svg>
+        <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+          <span>{formatPeriod(timeline[0].start, periodMs)}</span>
+          <span>
+            {formatPeriod(timeline[timeline.length - 1].start, periodMs)}
+          </span>
+        </div>
+        <ul className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600">
+          {analytics.options.map((text, option) => (
+            <li key={option} className="flex items-center gap-1">
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: COLORS[option % COLORS.length] }}
+              />
+              {text}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">
+          Votes per {period}
+        </h3>
+        <div className="flex items-end gap-px h-20">
+          {timeline.map((p) => (
+            <div
+              key={p.start}
+              title={`${formatPeriod(p.start, periodMs)}: ${p.votes}`}
+              className="flex-1 bg-blue-600 rounded-t-sm min-h-px"
+              style={{ height: `${(p.votes / maxVotes) * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">
+          Face-verified votes
+        </h3>
+        <div className="flex justify-between text-xs text-gray-700 mb-1">
+          <span>
+            {analytics.faceVerified} verified ·{" "}
+            {totalVotes - analytics.faceVerified} not verified
+          </span>
+          <span className="tabular-nums">
+            {Math.round((analytics.faceVerified / totalVotes) * 100)}%
+          </span>
+        </div>
+        <div className="w-full bg-gray-100 rounded-full h-2.5 overflow-hidden">
+          <div
+            className="bg-green-600 h-2.5 rounded-full"
+            style={{
+              width: `${(analytics.faceVerified / totalVotes) * 100}%`,
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <Breakdown
+          title="Browser"
+          items={analytics.browsers}
+          total={totalVotes}
+        />
+        <Breakdown
+          title="OS"
+          items={analytics.operatingSystems}
+          total={totalVotes}
+        />
+        <Breakdown
+          title="Device"
+          items={analytics.devices}
+          total={totalVotes}
+        />
+      </div>
+    </div>
+  );
+}
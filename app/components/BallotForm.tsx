@@ -0,0 +1,82 @@
+"use client";
+
+import { PollVoting } from "../utils/usePollVoting";
+import RankedList from "./RankedList";
+
+interface BallotFormProps {
+  options: string[];
+  voting: PollVoting;
+}
+
+// The option picker for every ballot type: radio-style for single choice,
+// checkboxes for multi-select and a sortable list for ranked ballots.
+export default function BallotForm({ options, voting }: BallotFormProps) {
+  const { ballotType, minSelections, maxSelections } = voting;
+
+  if (ballotType === "ranked") {
+    return (
+      <>
+        <p className="-mt-4 mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Drag the options into your order of preference.
+        </p>
+        <RankedList
+          options={options}
+          ranking={voting.currentRanking}
+          onChange={voting.setRanking}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {ballotType === "multi" && (
+        <p className="-mt-4 mb-4 text-sm text-gray-500 dark:text-gray-400">
+          {minSelections === maxSelections
+            ? `Pick ${minSelections} options.`
+            : `Pick ${minSelections} to ${maxSelections} options.`}
+        </p>
+      )}
+      <div className="space-y-3">
+        {options.map((option, index) => {
+          const isSelected =
+            ballotType === "multi"
+              ? voting.selectedOptions.includes(index)
+              : voting.selectedOption === index;
+          return (
+            <div
+              key={index}
+              onClick={() =>
+                ballotType === "multi"
+                  ? voting.toggleOption(index)
+                  : voting.setSelectedOption(index)
+              }
+              className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                isSelected
+                  ? "border-blue-600 bg-blue-50 dark:bg-blue-950"
+                  : "border-gray-200 hover:border-blue-200 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div
+                  className={`w-5 h-5 border-2 flex items-center justify-center ${
+                    ballotType === "multi" ? "rounded" : "rounded-full"
+                  } ${isSelected ? "border-blue-600" : "border-gray-300 dark:border-gray-600"}`}
+                >
+                  {isSelected && (
+                    <div
+                      className={`w-2.5 h-2.5 bg-blue-600 ${
+                        ballotType === "multi" ? "rounded-sm" : "rounded-full"
+                      }`}
+                    />
+                  )}
+                </div>
+                <span className="font-medium">{option}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
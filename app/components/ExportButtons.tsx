@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { downloadExport, ExportKind } from "../utils/export";
+
+interface ExportButtonsProps {
+  pollId: string;
+  // Needed unless the poll's exports are public
+  adminToken?: string | null;
+}
+
+const EXPORTS: { kind: ExportKind; label: string }[] = [
+  { kind: "results.csv", label: "Results CSV" },
+  { kind: "timeline.csv", label: "Timeline CSV" },
+  { kind: "json", label: "JSON" },
+];
+
+export default function ExportButtons({
+  pollId,
+  adminToken,
+}: ExportButtonsProps) {
+  const [downloading, setDownloading] = useState<ExportKind | null>(null);
+
+  const handleDownload = async (kind: ExportKind) => {
+    setDownloading(kind);
+    try {
+      await downloadExport(pollId, kind, adminToken);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Export failed.");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {EXPORTS.map(({ kind, label }) => (
+        <button
+          key={kind}
+          type="button"
+          onClick={() => handleDownload(kind)}
+          disabled={downloading !== null}
+          className="flex-1 rounded-lg border border-gray-300 px-2 py-1.5 text-xs font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {downloading === kind ? "Exporting..." : label}
+        </button>
+      ))}
+    </div>
+  );
+}
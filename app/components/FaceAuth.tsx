@@ -2,6 +2,25 @@
 
 import React, { useRef, useEffect, useState } from "react";
 import { toast } from "sonner";
+import {
+  averageDescriptors,
+  CHALLENGE_PROMPTS,
+  ChallengeTracker,
+  euclideanDistance,
+  isFrontal,
+  pickChallenge,
+  Point,
+} from "../utils/liveness";
+
+const FRAME_INTERVAL_MS = 100;
+const LIVENESS_TIMEOUT_MS = 15000;
+// Frontal frames needed before the challenge, and in total
+const BASELINE_FRAMES = 3;
+const REQUIRED_FRAMES = 6;
+// face-api.js descriptors of the same person are usually closer than this
+const SAME_FACE_DISTANCE = 0.6;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
 interface FaceAuthProps {
   onFaceDetected: (descriptor: Float32Array) => void;
@@ -14,9 +33,35 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
   const [cameraActive, setCameraActive] = useState(false);
   const [capturing, setCapturing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Liveness prompt while capturing, and why the last attempt failed
+  const [status, setStatus] = useState<string | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
 
   // Ref to hold the dynamically imported faceapi module
   const faceApiRef = useRef<any>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // Aborted on cancel or unmount, which stops the capture loop and camera
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => {
+      controller.abort();
+      stopCamera();
+    };
+  }, []);
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    stopCamera();
+    onCancel();
+  };
 
   useEffect(() => {
     const loadModels = async () => {
@@ -52,6 +97,12 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
   const startVideo = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ video: {} });
+      // Closed while the browser was asking for permission
+      if (abortRef.current?.signal.aborted) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      streamRef.current = stream;
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         // Wait for video to actually start playing to remove loading state
@@ -69,59 +120,101 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
     if (modelsLoaded) {
       startVideo();
     }
-    return () => {
-      // Cleanup stream
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach((track) => track.stop());
-      }
-    };
   }, [modelsLoaded]);
 
   const captureCtx = async () => {
-    if (!videoRef.current || !faceApiRef.current) return;
+    const signal = abortRef.current?.signal;
+    if (!videoRef.current || !faceApiRef.current || !signal) return;
     setCapturing(true);
+    setFailure(null);
+
+    const fail = (message: string) => {
+      setFailure(message);
+      setStatus(null);
+      setCapturing(false);
+    };
 
     try {
       const faceapi = faceApiRef.current;
+      const video = videoRef.current;
 
-      // 1. Detect Face with higher confidence threshold if possible, but defaults are usually okay
-      // We can also check if video is ready
-      if (videoRef.current.paused || videoRef.current.ended) {
+      if (video.paused || video.ended) {
         toast.error("Camera is not active");
         setCapturing(false);
         return;
       }
 
-      const detection = await faceapi
-        .detectSingleFace(videoRef.current, new faceapi.SsdMobilenetv1Options())
-        .withFaceLandmarks()
-        .withFaceDescriptor();
+      // A photo or replayed video can't respond to a random challenge, so
+      // the descriptor is only released once the voter has performed it.
+      const tracker = new ChallengeTracker(pickChallenge());
+      const goodFrames: Float32Array[] = [];
+      const deadline = Date.now() + LIVENESS_TIMEOUT_MS;
+      setStatus("Look straight at the camera");
 
-      if (!detection) {
-        toast.error(
-          "No face detected. Please position yourself clearly and try again.",
-        );
-        setCapturing(false);
-        return;
-      }
+      while (goodFrames.length < REQUIRED_FRAMES) {
+        // Cancelled: the modal is gone, so leave its state alone
+        if (signal.aborted) return;
+        if (Date.now() > deadline) {
+          fail(
+            tracker.done
+              ? "Couldn't get a clear view of your face. Face the camera in good light and try again."
+              : `Liveness check timed out. When prompted, ${CHALLENGE_PROMPTS[tracker.challenge].toLowerCase()}.`,
+          );
+          return;
+        }
+
+        const detection = await faceapi
+          .detectSingleFace(video, new faceapi.SsdMobilenetv1Options())
+          .withFaceLandmarks()
+          .withFaceDescriptor();
+        if (signal.aborted) return;
+
+        if (!detection) {
+          setStatus("No face detected. Keep your face in the frame.");
+          await sleep(FRAME_INTERVAL_MS);
+          continue;
+        }
+
+        const landmarks: Point[] = detection.landmarks.positions;
+        const descriptor: Float32Array = detection.descriptor;
+
+        // The same person has to stay in front of the camera throughout
+        if (
+          goodFrames.length > 0 &&
+          euclideanDistance(descriptor, goodFrames[0]) > SAME_FACE_DISTANCE
+        ) {
+          fail(
+            "Your face changed during the check. Make sure you're alone in the frame and try again.",
+          );
+          return;
+        }
 
-      // 2. Get Descriptor
-      const descriptor = detection.descriptor;
+        if (goodFrames.length < BASELINE_FRAMES) {
+          if (isFrontal(landmarks)) goodFrames.push(descriptor);
+          if (goodFrames.length === BASELINE_FRAMES) {
+            setStatus(CHALLENGE_PROMPTS[tracker.challenge]);
+          }
+        } else if (!tracker.done) {
+          tracker.update(landmarks);
+          if (tracker.done) setStatus("Great, now look back at the camera");
+        } else if (isFrontal(landmarks)) {
+          goodFrames.push(descriptor);
+        }
+
+        await sleep(FRAME_INTERVAL_MS);
+      }
 
+      if (signal.aborted) return;
       // Stop stream immediately to freeze frame (UX choice) or leave it running?
       // Let's stop it so the user feels "captured"
-      if (videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach((track) => track.stop());
-      }
+      stopCamera();
 
-      // Slight delay to show "Verified" state if we wanted, but we pass it up immediately
-      onFaceDetected(descriptor);
+      setStatus(null);
+      onFaceDetected(averageDescriptors(goodFrames));
     } catch (err) {
+      if (signal.aborted) return;
       console.error("Detection error", err);
-      toast.error("Failed to process face. Please try again.");
-      setCapturing(false);
+      fail("Failed to process face. Please try again.");
     }
   };
 
@@ -147,7 +240,7 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
           <h3 className="text-lg font-semibold text-gray-900 mb-2">Error</h3>
           <p className="text-sm text-gray-500 mb-6">{error}</p>
           <button
-            onClick={onCancel}
+            onClick={handleCancel}
             className="w-full inline-flex justify-center rounded-lg bg-gray-900 px-3 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-700 transition-all"
           >
             Close
@@ -164,7 +257,10 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
           <h2 className="text-2xl font-bold text-gray-900">
             Face Verification
           </h2>
-          <p className="text-gray-500 text-sm mt-1">One person, one vote.</p>
+          <p className="text-gray-500 text-sm mt-1">
+            One person, one vote. You&apos;ll be asked to blink or turn your
+            head.
+          </p>
         </div>
 
         <div className="relative w-full aspect-video bg-gray-900 rounded-xl overflow-hidden mb-6 shadow-inner ring-1 ring-gray-200">
@@ -192,9 +288,11 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
           {capturing && (
             <div className="absolute inset-0 bg-blue-500/10 z-20 flex items-center justify-center">
               <div className="w-full h-1 bg-blue-500 shadow-[0_0_15px_rgba(59,130,246,0.8)] animate-[scan_1.5s_ease-in-out_infinite] absolute top-0"></div>
-              <div className="bg-black/60 backdrop-blur text-white px-4 py-2 rounded-full flex items-center gap-2">
+              <div className="absolute bottom-4 bg-black/60 backdrop-blur text-white px-4 py-2 rounded-full flex items-center gap-2">
                 <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                <span className="text-sm font-medium">Verifying face...</span>
+                <span className="text-sm font-medium">
+                  {status || "Verifying face..."}
+                </span>
               </div>
             </div>
           )}
@@ -205,6 +303,12 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
           />
         </div>
 
+        {failure && (
+          <div className="w-full mb-4 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-700 ring-1 ring-inset ring-red-200">
+            {failure}
+          </div>
+        )}
+
         <p className="text-xs text-center text-gray-400 mb-6 max-w-xs mx-auto">
           We convert your face into a secure digital code to check for duplicate
           votes. No images are stored.
@@ -212,8 +316,7 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
 
         <div className="flex gap-3 w-full">
           <button
-            onClick={onCancel}
-            disabled={capturing}
+            onClick={handleCancel}
             className="flex-1 rounded-lg border border-gray-200 bg-white px-4 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
             Cancel
@@ -247,7 +350,7 @@ export default function FaceAuth({ onFaceDetected, onCancel }: FaceAuthProps) {
                     d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"
                   />
                 </svg>
-                Verify & Vote
+                {failure ? "Try Again" : "Verify & Vote"}
               </>
             )}
           </button>
@@ -0,0 +1,111 @@
+"use client";
+
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { getAdminToken } from "../utils/adminToken";
+import { getFingerprint } from "../utils/fingerprint";
+import { saveAccessToken } from "../utils/pollAccess";
+
+interface PollGateProps {
+  pollId: Id<"polls">;
+  visibility: "passcode" | "invite";
+}
+
+// Shown instead of a restricted poll until the visitor unlocks it. Invite
+// links (?invite=<code>) and the creator's admin token unlock it without
+// asking.
+export default function PollGate({ pollId, visibility }: PollGateProps) {
+  const unlock = useMutation(api.access.unlock);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const tryCode = async (candidate: string) => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const accessToken = await unlock({
+        pollId,
+        code: candidate,
+        fingerprint: await getFingerprint(),
+      });
+      if (!accessToken) {
+        setError(
+          visibility === "passcode"
+            ? "Wrong passcode."
+            : "This invite code is invalid, revoked or already used.",
+        );
+        return false;
+      }
+      saveAccessToken(pollId, accessToken);
+      // Drops a used ?invite= from the address and renders the poll
+      router.replace(`/poll/${pollId}`);
+      router.refresh();
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof ConvexError
+          ? typeof err.data === "string"
+            ? err.data
+            : err.data.message
+          : "Something went wrong. Please try again.",
+      );
+      return false;
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  useEffect(() => {
+    const automatic = searchParams.get("invite") ?? getAdminToken(pollId);
+    if (automatic) tryCode(automatic);
+    // Only once per visit, not on every keystroke
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          This poll is private
+        </h1>
+        <p className="text-sm text-gray-500 mb-6">
+          {visibility === "passcode"
+            ? "Enter the passcode you were given to see and vote on it."
+            : "It's open to invited people only. Open your invite link, or paste the invite code below."}
+        </p>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim()) tryCode(code);
+          }}
+          className="space-y-3"
+        >
+          <input
+            type={visibility === "passcode" ? "password" : "text"}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={visibility === "passcode" ? "Passcode" : "Invite code"}
+            className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+            required
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isUnlocking}
+            className="w-full rounded-lg bg-black px-3 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {isUnlocking ? "Checking..." : "Open Poll"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
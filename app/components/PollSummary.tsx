@@ -0,0 +1,80 @@
+"use client";
+
+import Link from "next/link";
+import { ReactNode } from "react";
+import { formatDuration } from "../utils/useNow";
+import { isPollClosed, summarizePoll } from "../../convex/lib/polls";
+
+type Summary = Awaited<ReturnType<typeof summarizePoll>>;
+
+interface PollSummaryProps {
+  poll: Summary;
+  now: number;
+  // Extra text for the details line
+  detail?: string;
+  // Links shown under the details
+  children?: ReactNode;
+}
+
+const VISIBILITY_LABELS = {
+  public: null,
+  unlisted: "Unlisted",
+  passcode: "Passcode",
+  invite: "Invite only",
+};
+
+// One row of a poll list (dashboard, explore): the question, whether it's
+// open, scheduled to close or closed, and its live vote count.
+export default function PollSummary({
+  poll,
+  now,
+  detail,
+  children,
+}: PollSummaryProps) {
+  const closed = isPollClosed(
+    { closedAt: poll.closedAt, settings: { closeAt: poll.closeAt } },
+    now,
+  );
+  const visibility = VISIBILITY_LABELS[poll.visibility];
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start justify-between gap-3">
+        <Link
+          href={`/poll/${poll._id}`}
+          className="font-semibold text-gray-900 hover:underline"
+        >
+          {poll.question}
+        </Link>
+        <span
+          className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-semibold ${
+            closed
+              ? "bg-gray-100 text-gray-600"
+              : poll.closeAt !== undefined
+                ? "bg-amber-50 text-amber-700"
+                : "bg-green-50 text-green-700"
+          }`}
+        >
+          {closed
+            ? "Closed"
+            : poll.closeAt !== undefined
+              ? "Scheduled"
+              : "Open"}
+        </span>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {poll.totalVotes} {poll.totalVotes === 1 ? "vote" : "votes"}
+        {detail && ` · ${detail}`} · Created{" "}
+        {new Date(poll._creationTime).toLocaleDateString()}
+        {closed
+          ? ` · Closed ${new Date(poll.closedAt ?? poll.closeAt!).toLocaleString()}`
+          : poll.closeAt !== undefined &&
+            ` · Closes in ${formatDuration(poll.closeAt - now)}`}
+        {visibility && ` · ${visibility}`}
+      </p>
+      {children && (
+        <div className="mt-2 flex gap-4 text-xs font-semibold">{children}</div>
+      )}
+    </li>
+  );
+}
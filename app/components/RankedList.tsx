@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+
+interface RankedListProps {
+  options: string[];
+  // Option indices in preference order, most preferred first
+  ranking: number[];
+  onChange: (ranking: number[]) => void;
+}
+
+export default function RankedList({
+  options,
+  ranking,
+  onChange,
+}: RankedListProps) {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= ranking.length || from === to) return;
+    const next = [...ranking];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <ol className="space-y-3">
+      {ranking.map((optionIndex, position) => (
+        <li
+          key={optionIndex}
+          draggable
+          onDragStart={() => setDragFrom(position)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragFrom !== null) move(dragFrom, position);
+            setDragFrom(null);
+          }}
+          onDragEnd={() => setDragFrom(null)}
+          className={`p-4 rounded-lg border-2 cursor-grab active:cursor-grabbing transition-all flex items-center gap-3 ${
+            dragFrom === position
+              ? "border-blue-600 bg-blue-50 dark:bg-blue-950 opacity-60"
+              : "border-gray-200 hover:border-blue-200 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+          }`}
+        >
+          <span className="w-6 h-6 rounded-full bg-blue-600 text-white text-xs font-semibold flex items-center justify-center">
+            {position + 1}
+          </span>
+          <span className="font-medium flex-1">{options[optionIndex]}</span>
+          {/* Buttons for keyboard and touch users, who can't drag */}
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => move(position, position - 1)}
+              disabled={position === 0}
+              aria-label={`Move ${options[optionIndex]} up`}
+              className="px-2 py-1 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-100 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800 disabled:opacity-30"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(position, position + 1)}
+              disabled={position === ranking.length - 1}
+              aria-label={`Move ${options[optionIndex]} down`}
+              className="px-2 py-1 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-100 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800 disabled:opacity-30"
+            >
+              ↓
+            </button>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
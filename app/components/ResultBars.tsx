@@ -0,0 +1,52 @@
+interface ResultBarsProps {
+  options: { text: string; votes: number; percentage: number }[];
+  ranked: boolean;
+  // This voter's own ballots, for the "your choice" badges
+  myVotes: { optionIndex: number; selections?: number[]; voided?: boolean }[];
+}
+
+export default function ResultBars({
+  options,
+  ranked,
+  myVotes,
+}: ResultBarsProps) {
+  // Where each option sits on this voter's ballots. Only ranked ballots have
+  // more than one position.
+  const yourPositions = new Map<number, number>();
+  for (const vote of myVotes) {
+    if (vote.voided) continue;
+    (vote.selections ?? [vote.optionIndex]).forEach((option, position) => {
+      if (!yourPositions.has(option)) yourPositions.set(option, position);
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {options.map((opt, index) => (
+        <div key={index} className="relative">
+          <div className="flex justify-between text-sm font-medium mb-1 z-10 relative">
+            <span>
+              {opt.text}
+              {yourPositions.has(index) && (
+                <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300">
+                  {ranked
+                    ? `Your #${yourPositions.get(index)! + 1}`
+                    : "Your choice"}
+                </span>
+              )}
+            </span>
+            <span>
+              {Math.round(opt.percentage)}% ({opt.votes})
+            </span>
+          </div>
+          <div className="w-full bg-gray-100 dark:bg-gray-800 rounded-full h-2.5 overflow-hidden">
+            <div
+              className="bg-blue-600 h-2.5 rounded-full transition-all duration-500 ease-out"
+              style={{ width: `${opt.percentage}%` }}
+            ></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -5,9 +5,13 @@ import { useEffect, useState } from "react";
 
 interface TurnstileWidgetProps {
   onVerify: (token: string) => void;
+  theme?: "light" | "dark" | "auto";
 }
 
-export default function TurnstileWidget({ onVerify }: TurnstileWidgetProps) {
+export default function TurnstileWidget({
+  onVerify,
+  theme = "light",
+}: TurnstileWidgetProps) {
   const siteKey = process.env.NEXT_PUBLIC_CLOUDFLARE_TURNSTILE_SITE_KEY;
   const turnstile = useTurnstile();
 
@@ -17,7 +21,7 @@ export default function TurnstileWidget({ onVerify }: TurnstileWidgetProps) {
 
   return (
     <div className="flex justify-center my-4">
-      <Turnstile sitekey={siteKey} onVerify={onVerify} theme="light" />
+      <Turnstile sitekey={siteKey} onVerify={onVerify} theme={theme} />
     </div>
   );
 }
@@ -0,0 +1,146 @@
+"use client";
+
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useMemo, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { listAdminTokens } from "../utils/adminToken";
+import { useAuthSession } from "../utils/auth";
+import { useNow } from "../utils/useNow";
+import AccountMenu from "../components/AccountMenu";
+import PollSummary from "../components/PollSummary";
+
+const PAGE_SIZE = 20;
+
+const subscribeNever = () => () => {};
+
+// Polls this browser holds admin tokens for, together with the signed-in
+// account's polls
+export default function DashboardPage() {
+  // Serialized so the snapshot compares equal between renders; null while
+  // server rendering, where there's no localStorage
+  const savedTokens = useSyncExternalStore(
+    subscribeNever,
+    () => JSON.stringify(listAdminTokens()),
+    () => null,
+  );
+  const adminTokens = useMemo(
+    () =>
+      savedTokens
+        ? (JSON.parse(savedTokens) as ReturnType<typeof listAdminTokens>)
+        : null,
+    [savedTokens],
+  );
+  const session = useAuthSession();
+  const isSignedIn = !!session?.user;
+  const now = useNow();
+
+  const browserPolls = useQuery(
+    api.dashboard.browserPolls,
+    adminTokens ? { adminTokens } : "skip",
+  );
+  const {
+    results: accountPolls,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.dashboard.myPolls, isSignedIn ? {} : "skip", {
+    initialNumItems: PAGE_SIZE,
+  });
+
+  const isLoading =
+    session === undefined ||
+    browserPolls === undefined ||
+    (isSignedIn && status === "LoadingFirstPage");
+  // A poll made on this browser while signed in is in both lists
+  const polls = [
+    ...new Map(
+      [...(browserPolls ?? []), ...(isSignedIn ? accountPolls : [])].map(
+        (poll) => [poll._id, poll],
+      ),
+    ).values(),
+  ].sort((a, b) => b._creationTime - a._creationTime);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 sm:p-24 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-2xl font-bold text-gray-900">My Polls</h1>
+          <Link
+            href="/"
+            className="rounded-lg bg-black px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800"
+          >
+            New Poll
+          </Link>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Polls you can manage from this browser, and the ones you created
+          with your account when signed in.
+        </p>
+        <AccountMenu className="mb-6" />
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <div className="h-16 bg-gray-100 rounded animate-pulse" />
+            <div className="h-16 bg-gray-100 rounded animate-pulse" />
+          </div>
+        ) : polls.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No polls yet.{" "}
+            <Link href="/" className="text-blue-600 hover:underline">
+              Create one
+            </Link>
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {polls.map((poll) => (
+              <PollSummary key={poll._id} poll={poll} now={now}>
+                <Link
+                  href={`/poll/${poll._id}`}
+                  className="text-blue-600 hover:text-blue-500"
+                >
+                  Results
+                </Link>
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(
+                      `${window.location.origin}/poll/${poll._id}`,
+                    );
+                    toast.success("Link copied to clipboard!");
+                  }}
+                  className="text-blue-600 hover:text-blue-500"
+                >
+                  Copy Link
+                </button>
+                <Link
+                  href={`/poll/${poll._id}/admin`}
+                  className="text-blue-600 hover:text-blue-500"
+                >
+                  Manage
+                </Link>
+                <Link
+                  href={`/poll/${poll._id}/audit`}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Audit log
+                </Link>
+              </PollSummary>
+            ))}
+          </ul>
+        )}
+
+        {isSignedIn && status === "CanLoadMore" && (
+          <button
+            onClick={() => loadMore(PAGE_SIZE)}
+            className="mt-4 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Load More
+          </button>
+        )}
+        {isSignedIn && status === "LoadingMore" && (
+          <p className="mt-4 text-center text-sm text-gray-500">Loading...</p>
+        )}
+      </div>
+    </main>
+  );
+}
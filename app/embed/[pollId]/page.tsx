@@ -0,0 +1,244 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { useState, useEffect, useRef, useSyncExternalStore } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import { getFingerprint } from "../../utils/fingerprint";
+import { getReceipts } from "../../utils/receipts";
+import { useNow } from "../../utils/useNow";
+import { usePollVoting } from "../../utils/usePollVoting";
+import { useAccessToken } from "../../utils/pollAccess";
+import { useAuthSession } from "../../utils/auth";
+import { EMBED_THEMES, EmbedMessage, EmbedTheme } from "../../utils/embed";
+import { isPollClosed } from "../../../convex/lib/polls";
+import TurnstileWidget from "../../components/TurnstileWidget";
+import FaceAuth from "../../components/FaceAuth";
+import BallotForm from "../../components/BallotForm";
+import ResultBars from "../../components/ResultBars";
+
+// Tells the embedding page about size changes and votes. Receipt IDs are
+// public (they're in the audit log), so any parent origin may listen.
+function postToParent(message: EmbedMessage) {
+  if (window.parent !== window) window.parent.postMessage(message, "*");
+}
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+function subscribeToColorScheme(onChange: () => void) {
+  const query = window.matchMedia(DARK_QUERY);
+  query.addEventListener("change", onChange);
+  return () => query.removeEventListener("change", onChange);
+}
+
+// Compact version of the poll page for iframes: /embed/<pollId>?theme=dark
+export default function EmbedPage() {
+  const params = useParams();
+  const pollId = params.pollId as Id<"polls">;
+  const searchParams = useSearchParams();
+  const requestedTheme = searchParams.get("theme") as EmbedTheme;
+  const theme = EMBED_THEMES.includes(requestedTheme)
+    ? requestedTheme
+    : "light";
+
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  // Null until the voter picks a view, see below
+  const [view, setView] = useState<"form" | "results" | null>(null);
+  const [receipts, setReceipts] = useState<string[]>([]);
+  const prefersDark = useSyncExternalStore(
+    subscribeToColorScheme,
+    () => window.matchMedia(DARK_QUERY).matches,
+    () => false,
+  );
+  const containerRef = useRef<HTMLDivElement>(null);
+  const now = useNow();
+
+  useEffect(() => {
+    getFingerprint().then((fp) => {
+      setFingerprint(fp);
+      localStorage.setItem("poll_fingerprint", fp);
+      setReceipts(getReceipts(pollId));
+    });
+  }, [pollId]);
+
+  // Report the content height so the parent can size the iframe to fit
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() =>
+      postToParent({
+        type: "poll:resize",
+        pollId,
+        height: Math.ceil(container.getBoundingClientRect().height),
+      }),
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [pollId]);
+
+  // Set when the browser's first-party cookie reaches the iframe, which
+  // many browsers no longer allow. Private polls then point to the poll page.
+  const accessToken = useAccessToken(pollId);
+  const session = useAuthSession();
+  const access = useQuery(api.access.status, { pollId, accessToken });
+  const poll = useQuery(api.polls.get, { pollId, accessToken });
+  const results = useQuery(api.polls.getResults, { pollId, accessToken });
+  const hasVoted = useQuery(
+    api.votes.hasVoted,
+    fingerprint && poll ? { pollId, fingerprint, accessToken } : "skip",
+  );
+  const myVotes = useQuery(
+    api.votes.myVotes,
+    fingerprint && poll
+      ? { pollId, fingerprint, receipts, accessToken }
+      : "skip",
+  );
+  const voting = usePollVoting(poll, fingerprint, accessToken, (vote) => {
+    setReceipts(getReceipts(pollId));
+    setView("results");
+    postToParent({ type: "poll:vote", pollId, receiptId: vote.receiptId });
+  });
+
+  // Same rule as the poll page: one-vote polls open on the results once
+  // this browser has voted
+  const showResults =
+    view === "results" ||
+    (view === null && !!hasVoted && !poll?.settings.allowMultipleVotes);
+
+  const dark = theme === "dark" || (theme === "auto" && prefersDark);
+  const isClosed = poll ? isPollClosed(poll, now) : false;
+  const pollUrl = `/poll/${pollId}`;
+
+  let content;
+  if (access && !access.granted) {
+    content = (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This poll is private. Open it in a new tab to unlock it.
+      </p>
+    );
+  } else if (poll === null || results === null) {
+    content = <p className="text-sm text-gray-500">Poll not found.</p>;
+  } else if (!poll || !results || hasVoted === undefined) {
+    content = (
+      <div className="animate-pulse space-y-3">
+        <div className="h-5 w-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        <div className="h-10 bg-gray-100 dark:bg-gray-800 rounded"></div>
+        <div className="h-10 bg-gray-100 dark:bg-gray-800 rounded"></div>
+      </div>
+    );
+  } else if (
+    poll.settings.requireIdentity &&
+    !session?.user &&
+    !showResults &&
+    !isClosed
+  ) {
+    content = (
+      <>
+        <h1 className="text-lg font-bold mb-2">{poll.question}</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          This poll counts one vote per account. Open it in a new tab to sign in
+          and vote.
+        </p>
+        <button
+          onClick={() => setView("results")}
+          className="text-xs text-gray-500 dark:text-gray-400 underline"
+        >
+          View Results
+        </button>
+      </>
+    );
+  } else if (showResults || isClosed) {
+    content = (
+      <>
+        <h1 className="text-lg font-bold mb-1">{poll.question}</h1>
+        <p className="text-gray-500 dark:text-gray-400 text-xs mb-4">
+          {results.totalVotes} votes
+          {isClosed && " · Closed"}
+          {results.ballotType === "ranked" &&
+            results.winner != null &&
+            ` · Winner: ${results.options[results.winner].text}`}
+        </p>
+        <ResultBars
+          options={results.options}
+          ranked={results.ballotType === "ranked"}
+          myVotes={myVotes ?? []}
+        />
+        {!isClosed && (poll.settings.allowMultipleVotes || !hasVoted) && (
+          <button
+            onClick={() => setView("form")}
+            className="mt-4 w-full rounded-lg bg-black dark:bg-white dark:text-gray-900 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 dark:hover:bg-gray-200 transition-all"
+          >
+            {!hasVoted ? "Cast Vote" : "Vote Again"}
+          </button>
+        )}
+      </>
+    );
+  } else {
+    content = (
+      <>
+        <h1 className="text-lg font-bold mb-6">{poll.question}</h1>
+        <BallotForm options={poll.options} voting={voting} />
+
+        {poll.settings.requireCaptcha && (
+          <TurnstileWidget
+            key={voting.turnstileKey}
+            onVerify={voting.setTurnstileToken}
+            theme={theme}
+          />
+        )}
+
+        <button
+          onClick={voting.castVote}
+          disabled={
+            !voting.ballot ||
+            voting.isVoting ||
+            (poll.settings.requireCaptcha && !voting.turnstileToken)
+          }
+          className="mt-4 w-full rounded-lg bg-black dark:bg-white dark:text-gray-900 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {voting.isVoting ? "Submitting..." : "Submit Vote"}
+        </button>
+        <div className="mt-3 text-center">
+          <button
+            onClick={() => setView("results")}
+            className="text-xs text-gray-500 dark:text-gray-400 underline"
+          >
+            View Results without voting
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div className={dark ? "dark" : ""}>
+      <div
+        ref={containerRef}
+        className={`p-4 bg-white text-gray-900 dark:bg-gray-900 dark:text-gray-100 font-sans ${
+          // FaceAuth is a fixed overlay, so make room for it in the iframe
+          voting.showFaceAuth ? "min-h-[560px]" : ""
+        }`}
+      >
+        {content}
+        <div className="mt-4 text-center text-xs text-gray-400">
+          <a
+            href={pollUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:underline"
+          >
+            Open poll in a new tab
+          </a>
+        </div>
+      </div>
+
+      {voting.showFaceAuth && (
+        <FaceAuth
+          onFaceDetected={(descriptor) => voting.submitVote(descriptor)}
+          onCancel={() => voting.setShowFaceAuth(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useState, useDeferredValue } from "react";
+import Link from "next/link";
+import { useNow } from "../utils/useNow";
+import PollSummary from "../components/PollSummary";
+
+const PAGE_SIZE = 20;
+
+const SORTS = {
+  recent: "Recent",
+  trending: "Trending",
+  closingSoon: "Closing Soon",
+};
+
+type Sort = keyof typeof SORTS;
+
+// Public polls whose creators chose to list them. Searching covers every
+// listed poll regardless of the selected sort.
+export default function ExplorePage() {
+  const [sort, setSort] = useState<Sort>("recent");
+  const [search, setSearch] = useState("");
+  // Typing shouldn't restart the paginated query on every keystroke
+  const term = useDeferredValue(search.trim());
+  const now = useNow();
+
+  const showTrending = sort === "trending" && !term;
+  const {
+    results: listed,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.explore.list,
+    showTrending
+      ? "skip"
+      : {
+          sort: sort === "closingSoon" ? "closingSoon" : "recent",
+          search: term || undefined,
+        },
+    { initialNumItems: PAGE_SIZE },
+  );
+  const trending = useQuery(api.explore.trending, showTrending ? {} : "skip");
+
+  const isLoading = showTrending
+    ? trending === undefined
+    : status === "LoadingFirstPage";
+  const polls = showTrending ? (trending ?? []) : listed;
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 sm:p-24 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold text-gray-900">Explore Polls</h1>
+          <Link
+            href="/"
+            className="rounded-lg bg-black px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800"
+          >
+            New Poll
+          </Link>
+        </div>
+
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search questions and options"
+          className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white mb-4"
+        />
+
+        {!term && (
+          <div className="mb-2 flex gap-2 border-b border-gray-100">
+            {(Object.keys(SORTS) as Sort[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setSort(key)}
+                className={`-mb-px border-b-2 px-3 py-2 text-sm font-semibold ${
+                  sort === key
+                    ? "border-black text-gray-900"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {SORTS[key]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-3 mt-4">
+            <div className="h-16 bg-gray-100 rounded animate-pulse" />
+            <div className="h-16 bg-gray-100 rounded animate-pulse" />
+          </div>
+        ) : polls.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">
+            {term
+              ? "No listed polls match your search."
+              : showTrending
+                ? "No listed poll has had votes in the last hour."
+                : "Nothing here yet."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {polls.map((poll) => (
+              <PollSummary
+                key={poll._id}
+                poll={poll}
+                now={now}
+                detail={
+                  "votesLastHour" in poll
+                    ? `${poll.votesLastHour} in the last hour`
+                    : undefined
+                }
+              />
+            ))}
+          </ul>
+        )}
+
+        {!showTrending && status === "CanLoadMore" && (
+          <button
+            onClick={() => loadMore(PAGE_SIZE)}
+            className="mt-4 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Load More
+          </button>
+        )}
+        {!showTrending && status === "LoadingMore" && (
+          <p className="mt-4 text-center text-sm text-gray-500">Loading...</p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -4,7 +4,27 @@ import { useState } from "react";
 import { useMutation } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { getFingerprint } from "./utils/fingerprint";
+import { saveAdminToken } from "./utils/adminToken";
+import { saveAccessToken } from "./utils/pollAccess";
+import { DEFAULT_FACE_MATCH_THRESHOLD } from "../convex/lib/faceMatch";
+import { DEFAULT_EMBEDDING_RETENTION_DAYS } from "../convex/lib/faceTemplate";
+import {
+  FieldErrors,
+  fieldErrorsOf,
+  MAX_OPTIONS,
+  validateListing,
+  validatePasscode,
+  validatePoll,
+} from "../convex/lib/validation";
+import { Visibility } from "../convex/lib/access";
+import AccountMenu from "./components/AccountMenu";
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-red-600">{message}</p>;
+}
 
 export default function Home() {
   const createPoll = useMutation(api.polls.create);
@@ -13,11 +33,36 @@ export default function Home() {
   const [question, setQuestion] = useState("");
   const [options, setOptions] = useState(["", ""]);
   const [allowMultipleVotes, setAllowMultipleVotes] = useState(false);
+  const [faceMatchThreshold, setFaceMatchThreshold] = useState(
+    DEFAULT_FACE_MATCH_THRESHOLD,
+  );
+  const [embeddingRetentionDays, setEmbeddingRetentionDays] = useState(
+    DEFAULT_EMBEDDING_RETENTION_DAYS,
+  );
   const [maxVotesPerIP, setMaxVotesPerIP] = useState(3);
+  const [rateLimitWindowMinutes, setRateLimitWindowMinutes] = useState(60);
+  // 0 means no limit
+  const [maxVotesPerDevice, setMaxVotesPerDevice] = useState(0);
+  const [maxVotesPerMinute, setMaxVotesPerMinute] = useState(0);
+  const [requireCaptcha, setRequireCaptcha] = useState(false);
+  const [allowVoteChanges, setAllowVoteChanges] = useState(false);
+  const [publicExport, setPublicExport] = useState(false);
+  const [ballotType, setBallotType] = useState<"single" | "multi" | "ranked">(
+    "single",
+  );
+  const [minSelections, setMinSelections] = useState(1);
+  const [maxSelections, setMaxSelections] = useState(2);
+  // datetime-local value, empty for polls that stay open
+  const [closeAt, setCloseAt] = useState("");
+  const [visibility, setVisibility] = useState<Visibility>("public");
+  const [passcode, setPasscode] = useState("");
+  const [listed, setListed] = useState(false);
+  const [requireIdentity, setRequireIdentity] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const handleAddOption = () => {
-    if (options.length < 10) {
+    if (options.length < MAX_OPTIONS) {
       setOptions([...options, ""]);
     }
   };
@@ -27,6 +72,8 @@ export default function Home() {
       const newOptions = [...options];
       newOptions.splice(index, 1);
       setOptions(newOptions);
+      // Option errors are keyed by index, which just shifted
+      setFieldErrors({});
     }
   };
 
@@ -38,26 +85,63 @@ export default function Home() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!question.trim()) return;
-    if (options.some((opt) => !opt.trim())) return;
+    // Polls requiring sign-in dedupe by account, so Face ID isn't used
+    const usesFaceId = !allowMultipleVotes && !requireIdentity;
+    const input = {
+      question,
+      options,
+      settings: {
+        allowMultipleVotes,
+        faceMatchThreshold: usesFaceId ? faceMatchThreshold : undefined,
+        embeddingRetentionDays: usesFaceId ? embeddingRetentionDays : undefined,
+        maxVotesPerIP,
+        rateLimitWindowMinutes,
+        maxVotesPerDevice:
+          allowMultipleVotes && maxVotesPerDevice > 0
+            ? maxVotesPerDevice
+            : undefined,
+        maxVotesPerMinute:
+          maxVotesPerMinute > 0 ? maxVotesPerMinute : undefined,
+        requireCaptcha,
+        allowVoteChanges,
+        publicExport,
+        closeAt: closeAt ? new Date(closeAt).getTime() : undefined,
+        ballotType,
+        ...(ballotType === "multi" && { minSelections, maxSelections }),
+        visibility,
+        requireIdentity,
+      },
+    };
+
+    // Same checks as the server, so mistakes show up without a round trip
+    const errors = {
+      ...validatePoll(input, Date.now()),
+      ...validatePasscode(input.settings, passcode),
+      ...validateListing(input.settings, listed),
+    };
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
 
     setIsSubmitting(true);
     try {
       const creatorFingerprint = await getFingerprint();
-      const pollId = await createPoll({
-        question,
-        options: options.filter((o) => o.trim()),
-        settings: {
-          allowMultipleVotes,
-          maxVotesPerIP,
-          requireCaptcha: false,
-        },
+      const { pollId, adminToken, accessToken } = await createPoll({
+        ...input,
+        passcode: visibility === "passcode" ? passcode : undefined,
+        listed: visibility === "public" && listed,
         creatorFingerprint,
       });
+      saveAdminToken(pollId, adminToken);
+      if (accessToken) saveAccessToken(pollId, accessToken);
       router.push(`/poll/${pollId}`);
     } catch (error) {
       console.error("Failed to create poll:", error);
-      alert("Failed to create poll. Please try again.");
+      const serverErrors = fieldErrorsOf(error);
+      if (serverErrors) {
+        setFieldErrors(serverErrors);
+      } else {
+        alert("Failed to create poll. Please try again.");
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -75,6 +159,7 @@ export default function Home() {
       </div>
 
       <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <AccountMenu className="mb-6" />
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label
@@ -94,6 +179,7 @@ export default function Home() {
                 onChange={(e) => setQuestion(e.target.value)}
                 required
               />
+              <FieldError message={fieldErrors.question} />
             </div>
           </div>
 
@@ -103,28 +189,34 @@ export default function Home() {
             </label>
             <div className="space-y-3">
               {options.map((option, index) => (
-                <div key={index} className="flex gap-2">
-                  <input
-                    type="text"
-                    value={option}
-                    onChange={(e) => handleOptionChange(index, e.target.value)}
-                    className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
-                    placeholder={`Option ${index + 1}`}
-                    required
-                  />
-                  {options.length > 2 && (
-                    <button
-                      type="button"
-                      onClick={() => handleRemoveOption(index)}
-                      className="rounded-md bg-red-50 px-2.5 py-1.5 text-sm font-semibold text-red-600 shadow-sm hover:bg-red-100 ring-1 ring-inset ring-red-300"
-                    >
-                      X
-                    </button>
-                  )}
+                <div key={index}>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) =>
+                        handleOptionChange(index, e.target.value)
+                      }
+                      className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                      placeholder={`Option ${index + 1}`}
+                      required
+                    />
+                    {options.length > 2 && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveOption(index)}
+                        className="rounded-md bg-red-50 px-2.5 py-1.5 text-sm font-semibold text-red-600 shadow-sm hover:bg-red-100 ring-1 ring-inset ring-red-300"
+                      >
+                        X
+                      </button>
+                    )}
+                  </div>
+                  <FieldError message={fieldErrors[`options.${index}`]} />
                 </div>
               ))}
             </div>
-            {options.length < 10 && (
+            <FieldError message={fieldErrors.options} />
+            {options.length < MAX_OPTIONS && (
               <button
                 type="button"
                 onClick={handleAddOption}
@@ -135,6 +227,137 @@ export default function Home() {
             )}
           </div>
 
+          <div>
+            <label
+              htmlFor="visibility"
+              className="block text-sm font-semibold leading-6 text-gray-900"
+            >
+              Who Can See It
+            </label>
+            <div className="mt-1">
+              <select
+                id="visibility"
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as Visibility)}
+                className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+              >
+                <option value="public">Public</option>
+                <option value="unlisted">
+                  Unlisted (only people with the link)
+                </option>
+                <option value="passcode">Passcode protected</option>
+                <option value="invite">
+                  Invite only (one link per person)
+                </option>
+              </select>
+            </div>
+            {visibility === "passcode" && (
+              <div className="mt-3">
+                <input
+                  type="text"
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  placeholder="Passcode"
+                  aria-label="Passcode"
+                  autoComplete="off"
+                  className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                />
+                <FieldError message={fieldErrors.passcode} />
+              </div>
+            )}
+            {visibility === "public" && (
+              <div className="flex items-center gap-x-3 mt-3">
+                <input
+                  id="listed"
+                  name="listed"
+                  type="checkbox"
+                  checked={listed}
+                  onChange={(e) => setListed(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 bg-white"
+                />
+                <label
+                  htmlFor="listed"
+                  className="block text-sm leading-6 text-gray-900"
+                >
+                  List on the Explore page
+                </label>
+              </div>
+            )}
+            <FieldError message={fieldErrors.listed} />
+            {visibility === "invite" && (
+              <p className="mt-2 text-xs text-gray-500">
+                Create invite links on the admin page once the poll exists.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="ballot-type"
+              className="block text-sm font-semibold leading-6 text-gray-900"
+            >
+              Ballot Type
+            </label>
+            <div className="mt-1">
+              <select
+                id="ballot-type"
+                value={ballotType}
+                onChange={(e) =>
+                  setBallotType(e.target.value as "single" | "multi" | "ranked")
+                }
+                className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+              >
+                <option value="single">Single choice</option>
+                <option value="multi">Multiple choice (pick several)</option>
+                <option value="ranked">Ranked choice (instant runoff)</option>
+              </select>
+            </div>
+            {ballotType === "multi" && (
+              <div className="mt-3 flex gap-3">
+                <div className="flex-1">
+                  <label
+                    htmlFor="min-selections"
+                    className="block text-xs font-semibold text-gray-700"
+                  >
+                    Min picks
+                  </label>
+                  <input
+                    type="number"
+                    id="min-selections"
+                    min="1"
+                    max={maxSelections}
+                    value={minSelections}
+                    onChange={(e) =>
+                      setMinSelections(parseInt(e.target.value) || 1)
+                    }
+                    className="mt-1 block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+                  />
+                  <FieldError message={fieldErrors.minSelections} />
+                </div>
+                <div className="flex-1">
+                  <label
+                    htmlFor="max-selections"
+                    className="block text-xs font-semibold text-gray-700"
+                  >
+                    Max picks
+                  </label>
+                  <input
+                    type="number"
+                    id="max-selections"
+                    min={minSelections}
+                    max={options.length}
+                    value={maxSelections}
+                    onChange={(e) =>
+                      setMaxSelections(parseInt(e.target.value) || 1)
+                    }
+                    className="mt-1 block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+                  />
+                  <FieldError message={fieldErrors.maxSelections} />
+                </div>
+              </div>
+            )}
+          </div>
+
           <div className="border-t border-gray-100 pt-4">
             <h3 className="text-sm font-medium text-gray-900 mb-3">Settings</h3>
             <div className="flex items-center gap-x-3">
@@ -154,6 +377,125 @@ export default function Home() {
               </label>
             </div>
 
+            <div className="flex items-center gap-x-3 mt-3">
+              <input
+                id="require-identity"
+                name="require-identity"
+                type="checkbox"
+                checked={requireIdentity}
+                onChange={(e) => setRequireIdentity(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 bg-white"
+              />
+              <label
+                htmlFor="require-identity"
+                className="block text-sm leading-6 text-gray-900"
+              >
+                Require sign-in to vote (one vote per account, no Face ID)
+              </label>
+            </div>
+
+            {!allowMultipleVotes && !requireIdentity && (
+              <div className="mt-3">
+                <label
+                  htmlFor="face-strictness"
+                  className="block text-sm font-semibold leading-6 text-gray-900"
+                >
+                  Face ID Strictness
+                </label>
+                <div className="mt-1">
+                  <select
+                    id="face-strictness"
+                    value={faceMatchThreshold}
+                    onChange={(e) =>
+                      setFaceMatchThreshold(parseFloat(e.target.value))
+                    }
+                    className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                  >
+                    <option value={0.92}>
+                      Strict: fewer repeat votes, may block look-alikes
+                    </option>
+                    <option value={0.95}>Balanced</option>
+                    <option value={0.97}>
+                      Lenient: fewer false blocks, more repeat votes
+                    </option>
+                  </select>
+                  <FieldError message={fieldErrors.faceMatchThreshold} />
+                </div>
+                <label
+                  htmlFor="face-retention"
+                  className="block text-sm font-semibold leading-6 text-gray-900 mt-3"
+                >
+                  Delete Face ID Data
+                </label>
+                <div className="mt-1">
+                  <select
+                    id="face-retention"
+                    value={embeddingRetentionDays}
+                    onChange={(e) =>
+                      setEmbeddingRetentionDays(parseInt(e.target.value))
+                    }
+                    className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                  >
+                    <option value={0}>As soon as the poll closes</option>
+                    <option value={7}>7 days after the poll closes</option>
+                    <option value={30}>30 days after the poll closes</option>
+                  </select>
+                  <FieldError message={fieldErrors.embeddingRetentionDays} />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-x-3 mt-3">
+              <input
+                id="allow-vote-changes"
+                name="allow-vote-changes"
+                type="checkbox"
+                checked={allowVoteChanges}
+                onChange={(e) => setAllowVoteChanges(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 bg-white"
+              />
+              <label
+                htmlFor="allow-vote-changes"
+                className="block text-sm leading-6 text-gray-900"
+              >
+                Allow vote changes until the poll closes
+              </label>
+            </div>
+
+            <div className="flex items-center gap-x-3 mt-3">
+              <input
+                id="public-export"
+                name="public-export"
+                type="checkbox"
+                checked={publicExport}
+                onChange={(e) => setPublicExport(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 bg-white"
+              />
+              <label
+                htmlFor="public-export"
+                className="block text-sm leading-6 text-gray-900"
+              >
+                Let anyone download results and the vote timeline
+              </label>
+            </div>
+
+            <div className="flex items-center gap-x-3 mt-3">
+              <input
+                id="require-captcha"
+                name="require-captcha"
+                type="checkbox"
+                checked={requireCaptcha}
+                onChange={(e) => setRequireCaptcha(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 bg-white"
+              />
+              <label
+                htmlFor="require-captcha"
+                className="block text-sm leading-6 text-gray-900"
+              >
+                Require bot check (CAPTCHA) to vote
+              </label>
+            </div>
+
             <div className="mt-4">
               <label
                 htmlFor="max-votes"
@@ -173,9 +515,109 @@ export default function Home() {
                   }
                   className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
                 />
+                <FieldError message={fieldErrors.maxVotesPerIP} />
                 <p className="mt-1 text-xs text-gray-500">
-                  Limits how many votes can come from the same network in 1
-                  hour. Set to 1 for strict testing.
+                  Limits how many votes can come from the same network in one
+                  rate limit window. Set to 1 for strict testing.
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <label
+                htmlFor="rate-window"
+                className="block text-sm font-semibold leading-6 text-gray-900"
+              >
+                Rate Limit Window (minutes)
+              </label>
+              <div className="mt-1">
+                <input
+                  type="number"
+                  id="rate-window"
+                  min="1"
+                  max="1440"
+                  value={rateLimitWindowMinutes}
+                  onChange={(e) =>
+                    setRateLimitWindowMinutes(parseInt(e.target.value) || 60)
+                  }
+                  className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+                />
+                <FieldError message={fieldErrors.rateLimitWindowMinutes} />
+              </div>
+            </div>
+
+            {allowMultipleVotes && (
+              <div className="mt-4">
+                <label
+                  htmlFor="max-device-votes"
+                  className="block text-sm font-semibold leading-6 text-gray-900"
+                >
+                  Max Votes per Device
+                </label>
+                <div className="mt-1">
+                  <input
+                    type="number"
+                    id="max-device-votes"
+                    min="0"
+                    max="100"
+                    value={maxVotesPerDevice}
+                    onChange={(e) =>
+                      setMaxVotesPerDevice(parseInt(e.target.value) || 0)
+                    }
+                    className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+                  />
+                  <FieldError message={fieldErrors.maxVotesPerDevice} />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Per rate limit window. 0 for no device limit.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4">
+              <label
+                htmlFor="max-per-minute"
+                className="block text-sm font-semibold leading-6 text-gray-900"
+              >
+                Max Votes per Minute (whole poll)
+              </label>
+              <div className="mt-1">
+                <input
+                  type="number"
+                  id="max-per-minute"
+                  min="0"
+                  value={maxVotesPerMinute}
+                  onChange={(e) =>
+                    setMaxVotesPerMinute(parseInt(e.target.value) || 0)
+                  }
+                  className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+                />
+                <FieldError message={fieldErrors.maxVotesPerMinute} />
+                <p className="mt-1 text-xs text-gray-500">
+                  Caps sudden bursts across all voters. 0 for no limit.
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <label
+                htmlFor="close-at"
+                className="block text-sm font-semibold leading-6 text-gray-900"
+              >
+                Close Time (optional)
+              </label>
+              <div className="mt-1">
+                <input
+                  type="datetime-local"
+                  id="close-at"
+                  value={closeAt}
+                  onChange={(e) => setCloseAt(e.target.value)}
+                  className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+                />
+                <FieldError message={fieldErrors.closeAt} />
+                <p className="mt-1 text-xs text-gray-500">
+                  Voting stops automatically at this time. Leave empty to keep
+                  the poll open.
                 </p>
               </div>
             </div>
@@ -190,6 +632,18 @@ export default function Home() {
           </button>
         </form>
       </div>
+
+      <div className="mt-6 flex justify-center gap-6">
+        <Link
+          href="/dashboard"
+          className="text-sm text-blue-600 hover:underline"
+        >
+          My polls
+        </Link>
+        <Link href="/explore" className="text-sm text-blue-600 hover:underline">
+          Explore polls
+        </Link>
+      </div>
     </main>
   );
 }
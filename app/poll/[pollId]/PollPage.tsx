@@ -0,0 +1,536 @@
+"use client";
+
+import {
+  Preloaded,
+  useMutation,
+  usePreloadedQuery,
+  useQuery,
+} from "convex/react";
+import { ConvexError } from "convex/values";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { useState, useEffect } from "react";
+import { getFingerprint } from "../../utils/fingerprint";
+import { getAdminToken } from "../../utils/adminToken";
+import { forgetReceipt, getReceipts } from "../../utils/receipts";
+import { useNow, formatDuration } from "../../utils/useNow";
+import { usePollVoting } from "../../utils/usePollVoting";
+import { useAccessToken } from "../../utils/pollAccess";
+import { useAuthSession } from "../../utils/auth";
+import { embedCode } from "../../utils/embed";
+import { isPollClosed } from "../../../convex/lib/polls";
+import { isRestricted } from "../../../convex/lib/access";
+import { RunoffRound } from "../../../convex/lib/ballots";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import TurnstileWidget from "../../components/TurnstileWidget";
+import FaceAuth from "../../components/FaceAuth";
+import BallotForm from "../../components/BallotForm";
+import ResultBars from "../../components/ResultBars";
+import ExportButtons from "../../components/ExportButtons";
+import AnalyticsView from "../../components/AnalyticsView";
+import AccountMenu from "../../components/AccountMenu";
+
+interface PollPageProps {
+  preloadedPoll: Preloaded<typeof api.polls.get>;
+  preloadedResults: Preloaded<typeof api.polls.getResults>;
+}
+
+export default function PollPage({
+  preloadedPoll,
+  preloadedResults,
+}: PollPageProps) {
+  const params = useParams();
+  const pollId = params.pollId as Id<"polls">;
+
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  // View state: 'form' or 'results'
+  const [view, setView] = useState<"form" | "results">("form");
+  const [receipts, setReceipts] = useState<string[]>([]);
+  // Set while the form is being used to change an existing vote
+  const [changingReceipt, setChangingReceipt] = useState<string | null>(null);
+
+  const [isCreator, setIsCreator] = useState(false);
+  const accessToken = useAccessToken(pollId);
+  const session = useAuthSession();
+  const now = useNow();
+
+  useEffect(() => {
+    getFingerprint().then((fp) => {
+      setFingerprint(fp);
+      localStorage.setItem("poll_fingerprint", fp);
+    });
+    setIsCreator(!!getAdminToken(pollId));
+    setReceipts(getReceipts(pollId));
+  }, [pollId]);
+
+  // Rendered on the server first, then kept live by the subscriptions
+  const poll = usePreloadedQuery(preloadedPoll);
+  const results = usePreloadedQuery(preloadedResults);
+  // Both need access to the poll, so they wait until it has loaded
+  const hasVoted = useQuery(
+    api.votes.hasVoted,
+    fingerprint && poll ? { pollId, fingerprint, accessToken } : "skip",
+  );
+  const myVotes = useQuery(
+    api.votes.myVotes,
+    fingerprint && poll
+      ? { pollId, fingerprint, receipts, accessToken }
+      : "skip",
+  );
+  const changeVote = useMutation(api.votes.changeVote);
+  const retractVote = useMutation(api.votes.retractVote);
+  const voting = usePollVoting(poll, fingerprint, accessToken, () => {
+    setReceipts(getReceipts(pollId));
+    setView("results");
+  });
+
+  // Initial view logic: If user voted and multiple votes are NOT allowed, show results.
+  // We use a flag to only set this once to avoid overriding user navigation (e.g. "Vote Again")
+  const [initialViewSet, setInitialViewSet] = useState(false);
+  useEffect(() => {
+    if (!initialViewSet && hasVoted !== undefined && poll) {
+      if (hasVoted && !poll.settings.allowMultipleVotes) {
+        setView("results");
+      }
+      setInitialViewSet(true);
+    }
+  }, [hasVoted, poll, initialViewSet]);
+
+  // Only once the poll has been deleted, the server 404s unknown polls
+  if (!poll || !results) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="animate-pulse flex flex-col items-center">
+          <div className="h-4 w-32 bg-gray-200 rounded mb-4"></div>
+          <div className="h-8 w-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const { ballotType, ballot, isVoting, setIsVoting } = voting;
+
+  const handleVote = async () => {
+    if (!ballot) return;
+
+    // Changes were verified when the vote was first cast
+    if (changingReceipt) {
+      await submitChange(changingReceipt);
+      return;
+    }
+
+    await voting.castVote();
+  };
+
+  const submitChange = async (receipt: string) => {
+    setIsVoting(true);
+    try {
+      await changeVote({ receipt, ...ballot! });
+      toast.success("Vote changed!");
+      setChangingReceipt(null);
+      setView("results");
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof ConvexError ? err.data : "Failed to change vote.",
+      );
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Pre-fills the form with the vote being changed
+  const startChange = (vote: NonNullable<typeof myVotes>[number]) => {
+    if (ballotType === "ranked") {
+      voting.setRanking(vote.selections ?? null);
+    } else if (ballotType === "multi") {
+      voting.setSelectedOptions(vote.selections ?? [vote.optionIndex]);
+    } else {
+      voting.setSelectedOption(vote.optionIndex);
+    }
+    setChangingReceipt(vote.receipt);
+    setView("form");
+  };
+
+  const handleRetract = async (receipt: string) => {
+    if (!confirm("Retract your vote? It will no longer be counted.")) return;
+    try {
+      await retractVote({ receipt });
+      forgetReceipt(pollId, receipt);
+      setReceipts(getReceipts(pollId));
+      toast.success("Vote retracted");
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof ConvexError ? err.data : "Failed to retract vote.",
+      );
+    }
+  };
+
+  const isClosed = isPollClosed(poll, now);
+  // Signed-in creators manage their polls without the admin token
+  const canManage = isCreator || poll.viewerIsOwner;
+  const needsSignIn = !!poll.settings.requireIdentity && !session?.user;
+
+  // Once the deadline passes (or the creator closes it) only results remain
+  if (view === "results" || isClosed) {
+    return (
+      <ResultsView
+        poll={poll}
+        results={results}
+        totalVotes={results.totalVotes}
+        isClosed={isClosed}
+        canVoteAgain={poll.settings.allowMultipleVotes && !isClosed}
+        onVoteAgain={() => {
+          // Simple transition effect
+          const btn = document.getElementById("vote-again-btn");
+          if (btn) btn.innerText = "Loading...";
+          setTimeout(() => setView("form"), 500);
+        }}
+        fingerprint={fingerprint}
+        hasVoted={hasVoted}
+        isCreator={canManage}
+        accessToken={accessToken}
+        myVotes={myVotes ?? []}
+        canChangeVote={!!poll.settings.allowVoteChanges && !isClosed}
+        onChangeVote={startChange}
+        onRetractVote={handleRetract}
+      />
+    );
+  }
+
+  // Form View
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">
+          {poll.question}
+        </h1>
+
+        {poll.settings.closeAt !== undefined && (
+          <p className="-mt-4 mb-6 text-sm text-gray-500">
+            Closes in{" "}
+            {/* The server's clock is a second or two behind the browser's */}
+            <span
+              suppressHydrationWarning
+              className="font-semibold text-gray-900 tabular-nums"
+            >
+              {formatDuration(poll.settings.closeAt - now)}
+            </span>
+          </p>
+        )}
+
+        <BallotForm options={poll.options} voting={voting} />
+
+        {poll.settings.requireCaptcha && !changingReceipt && (
+          <TurnstileWidget
+            key={voting.turnstileKey}
+            onVerify={voting.setTurnstileToken}
+          />
+        )}
+
+        {needsSignIn ? (
+          <AccountMenu
+            prompt="This poll counts one vote per account. Sign in to vote."
+            className="mt-6"
+          />
+        ) : (
+          <button
+            onClick={handleVote}
+            disabled={
+              !ballot ||
+              !fingerprint ||
+              isVoting ||
+              (poll.settings.requireCaptcha &&
+                !changingReceipt &&
+                !voting.turnstileToken)
+            }
+            className="mt-6 w-full rounded-lg bg-black px-3 py-3 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {isVoting
+              ? "Submitting..."
+              : changingReceipt
+                ? "Update Vote"
+                : "Submit Vote"}
+          </button>
+        )}
+
+        <div className="mt-4 text-center">
+          <button
+            onClick={() => {
+              setChangingReceipt(null);
+              setView("results");
+            }}
+            className="text-sm text-gray-500 underline"
+          >
+            {changingReceipt
+              ? "Keep my current vote"
+              : "View Results without voting"}
+          </button>
+        </div>
+      </div>
+
+      {voting.showFaceAuth && (
+        <FaceAuth
+          onFaceDetected={(descriptor) => voting.submitVote(descriptor)}
+          onCancel={() => voting.setShowFaceAuth(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+type MyVote = FunctionReturnType<typeof api.votes.myVotes>[number];
+
+interface ResultsViewProps {
+  poll: NonNullable<FunctionReturnType<typeof api.polls.get>>;
+  results: NonNullable<FunctionReturnType<typeof api.polls.getResults>>;
+  totalVotes: number;
+  isClosed: boolean;
+  canVoteAgain: boolean;
+  onVoteAgain: () => void;
+  fingerprint: string | null;
+  hasVoted: boolean | undefined;
+  isCreator: boolean;
+  myVotes: MyVote[];
+  canChangeVote: boolean;
+  onChangeVote: (vote: MyVote) => void;
+  onRetractVote: (receipt: string) => void;
+  accessToken: string | undefined;
+}
+
+function ResultsView({
+  poll,
+  results,
+  totalVotes,
+  isClosed,
+  canVoteAgain,
+  onVoteAgain,
+  fingerprint,
+  hasVoted,
+  isCreator,
+  myVotes,
+  canChangeVote,
+  onChangeVote,
+  onRetractVote,
+  accessToken,
+}: ResultsViewProps) {
+  // The newest vote this browser holds a receipt for
+  const changeable = [...myVotes]
+    .reverse()
+    .find(
+      (vote): vote is MyVote & { receipt: string } =>
+        !!vote.receipt && !vote.voided,
+    );
+  // Only ranked polls have runoff rounds
+  const rounds = results.rounds ?? [];
+  const [tab, setTab] = useState<"results" | "analytics">("results");
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          {poll.question}
+        </h1>
+        <p className="text-gray-500 text-sm mb-6">
+          {totalVotes} votes
+          {isClosed && (
+            <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+              Closed
+            </span>
+          )}
+        </p>
+
+        <div className="-mt-2 mb-6 flex gap-4 border-b border-gray-100 text-sm">
+          {(["results", "analytics"] as const).map((name) => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`pb-2 -mb-px capitalize border-b-2 ${
+                tab === name
+                  ? "border-blue-600 font-semibold text-gray-900"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+
+        {tab === "analytics" ? (
+          <AnalyticsView pollId={poll._id} accessToken={accessToken} />
+        ) : (
+          <>
+            {results.ballotType === "multi" && (
+              <p className="-mt-4 mb-6 text-xs text-gray-400">
+                Voters could pick several options, so percentages are of voters
+                and can add up to more than 100%.
+              </p>
+            )}
+
+            {results.ballotType === "ranked" && (
+              <p className="-mt-4 mb-6 text-sm text-gray-700">
+                {results.winner != null ? (
+                  <>
+                    Winner:{" "}
+                    <span className="font-semibold">
+                      {results.options[results.winner].text}
+                    </span>{" "}
+                    after {rounds.length}{" "}
+                    {rounds.length === 1 ? "round" : "rounds"}
+                  </>
+                ) : (
+                  "No winner yet"
+                )}
+              </p>
+            )}
+
+            <ResultBars
+              options={results.options}
+              ranked={results.ballotType === "ranked"}
+              myVotes={myVotes}
+            />
+
+            {results.ballotType === "ranked" && rounds.length > 1 && (
+              <div className="mt-6 border-t border-gray-100 pt-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Instant-runoff rounds
+                </h3>
+                <ol className="space-y-2 text-xs text-gray-600">
+                  {rounds.map(
+                    (round: RunoffRound, roundIndex: number) => (
+                      <li key={roundIndex}>
+                        <span className="font-semibold text-gray-900">
+                          Round {roundIndex + 1}:
+                        </span>{" "}
+                        {round.counts
+                          .map((count: number, i: number) => ({ count, i }))
+                          .filter(
+                            ({ i }: { i: number }) =>
+                              !rounds
+                                .slice(0, roundIndex)
+                                .some((r: RunoffRound) =>
+                                  r.eliminated.includes(i),
+                                ),
+                          )
+                          .map(
+                            ({ count, i }: { count: number; i: number }) =>
+                              `${results.options[i].text} ${count}`,
+                          )
+                          .join(" · ")}
+                        {round.eliminated.length > 0 && (
+                          <span className="text-red-500">
+                            {" "}
+                            (eliminated{" "}
+                            {round.eliminated
+                              .map((i: number) => results.options[i].text)
+                              .join(", ")}
+                            )
+                          </span>
+                        )}
+                      </li>
+                    ),
+                  )}
+                </ol>
+              </div>
+            )}
+          </>
+        )}
+
+        {(poll.settings.publicExport || isCreator) && (
+          <div className="mt-6 border-t border-gray-100 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Export</h3>
+            <ExportButtons
+              pollId={poll._id}
+              adminToken={isCreator ? getAdminToken(poll._id) : null}
+            />
+          </div>
+        )}
+
+        <div className="mt-8 flex gap-3">
+          <button
+            onClick={() => {
+              navigator.clipboard.writeText(window.location.href);
+              toast.success("Link copied to clipboard!");
+            }}
+            className="flex-1 rounded-lg border border-gray-300 px-3 py-2.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Share Poll
+          </button>
+          {/* Embeds can't carry an access token, so private polls have none */}
+          {!isRestricted(poll) && (
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(
+                  embedCode({
+                    origin: window.location.origin,
+                    pollId: poll._id,
+                    title: poll.question,
+                  }),
+                );
+                toast.success("Embed code copied to clipboard!");
+              }}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+            >
+              Copy Embed Code
+            </button>
+          )}
+          {!isClosed && (canVoteAgain || !hasVoted) && (
+            <button
+              id="vote-again-btn"
+              onClick={onVoteAgain}
+              className="flex-1 rounded-lg bg-black px-3 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 transition-all"
+            >
+              {!hasVoted ? "Cast Vote" : "Vote Again"}
+            </button>
+          )}
+        </div>
+        {canChangeVote && changeable && (
+          <div className="mt-3 flex gap-3">
+            <button
+              onClick={() => onChangeVote(changeable)}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+            >
+              Change Vote
+            </button>
+            <button
+              onClick={() => onRetractVote(changeable.receipt)}
+              className="flex-1 rounded-lg border border-red-200 px-3 py-2.5 text-sm font-semibold text-red-600 shadow-sm hover:bg-red-50"
+            >
+              Retract Vote
+            </button>
+          </div>
+        )}
+        <div className="mt-4 text-center">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            Create your own poll
+          </Link>
+        </div>
+        <div className="mt-2 text-center">
+          <Link
+            href={`/poll/${poll._id}/audit`}
+            className="text-sm text-gray-500 hover:underline"
+          >
+            Audit log
+          </Link>
+        </div>
+        {isCreator && (
+          <div className="mt-2 text-center">
+            <Link
+              href={`/poll/${poll._id}/admin`}
+              className="text-sm text-gray-500 hover:underline"
+            >
+              Manage poll
+            </Link>
+          </div>
+        )}
+        <div className="mt-6 text-center text-xs text-gray-400">
+          Device ID: {fingerprint || "Loading..."}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,710 @@
+"use client";
+
+import { useQuery, useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import {
+  getAdminToken,
+  saveAdminToken,
+  forgetAdminToken,
+} from "../../../utils/adminToken";
+import { useNow } from "../../../utils/useNow";
+import { isPollClosed } from "../../../../convex/lib/polls";
+import { getVisibility } from "../../../../convex/lib/access";
+import {
+  FieldErrors,
+  fieldErrorsOf,
+  validatePoll,
+} from "../../../../convex/lib/validation";
+import ExportButtons from "../../../components/ExportButtons";
+
+const FINDING_LABELS = {
+  ipBurst: "Burst of votes from one network",
+  userAgentBurst: "Many devices with an identical browser",
+  nearDuplicateFace: "Nearly matching faces",
+};
+
+// Formats a timestamp for a datetime-local input (local time, no seconds).
+function toDateTimeLocal(timestamp: number) {
+  const date = new Date(timestamp);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+export default function AdminPage() {
+  const params = useParams();
+  const router = useRouter();
+  const pollId = params.pollId as Id<"polls">;
+
+  const [adminToken, setAdminToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState<string[]>([]);
+  const [editErrors, setEditErrors] = useState<FieldErrors>({});
+  const [closeAt, setCloseAt] = useState("");
+  const [inviteCount, setInviteCount] = useState(5);
+  const [inviteLabel, setInviteLabel] = useState("");
+  // Plain invite links exist only here, right after they're created
+  const [newInviteLinks, setNewInviteLinks] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const now = useNow();
+
+  // The admin link carries the token in the hash so it never hits server logs
+  useEffect(() => {
+    const hashToken = new URLSearchParams(window.location.hash.slice(1)).get(
+      "token",
+    );
+    if (hashToken) {
+      saveAdminToken(pollId, hashToken);
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+    setAdminToken(hashToken || getAdminToken(pollId) || "");
+  }, [pollId]);
+
+  // The admin token doubles as an access token for private polls, so
+  // whether the poll exists at all comes from access.status
+  const accessToken = adminToken || undefined;
+  const access = useQuery(api.access.status, { pollId });
+  const poll = useQuery(api.polls.get, { pollId, accessToken });
+  const results = useQuery(api.polls.getResults, { pollId, accessToken });
+  // Without a token this still passes for the signed-in creator
+  const isAdmin = useQuery(
+    api.polls.verifyAdmin,
+    adminToken === null ? "skip" : { pollId, adminToken },
+  );
+
+  const closePoll = useMutation(api.polls.close);
+  const reopenPoll = useMutation(api.polls.reopen);
+  const extendPoll = useMutation(api.polls.extend);
+  const editPoll = useMutation(api.polls.edit);
+  const removePoll = useMutation(api.polls.remove);
+  const setPublicExport = useMutation(api.polls.setPublicExport);
+  const findings = useQuery(
+    api.abuse.list,
+    adminToken !== null && isAdmin ? { pollId, adminToken } : "skip",
+  );
+  const voidVotes = useMutation(api.abuse.voidVotes);
+  const dismissFinding = useMutation(api.abuse.dismiss);
+  const invites = useQuery(
+    api.access.listInvites,
+    adminToken !== null && isAdmin && access?.visibility === "invite"
+      ? { pollId, adminToken }
+      : "skip",
+  );
+  const createInvites = useMutation(api.access.createInvites);
+  const revokeInvite = useMutation(api.access.revokeInvite);
+
+  if (
+    adminToken === null ||
+    access === undefined ||
+    poll === undefined ||
+    results === undefined ||
+    isAdmin === undefined
+  ) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="animate-pulse flex flex-col items-center">
+          <div className="h-4 w-32 bg-gray-200 rounded mb-4"></div>
+          <div className="h-8 w-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (access === null) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            Poll not found
+          </h1>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            Create a new poll
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Admin access required
+          </h1>
+          <p className="text-gray-500 text-sm mb-6">
+            Open the admin link you saved when creating this poll, or paste its
+            admin token below.
+          </p>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!tokenInput.trim()) return;
+              saveAdminToken(pollId, tokenInput.trim());
+              setAdminToken(tokenInput.trim());
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="Admin token"
+              className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+            />
+            <button
+              type="submit"
+              className="rounded-lg bg-black px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800"
+            >
+              Unlock
+            </button>
+          </form>
+          {adminToken && isAdmin === false && (
+            <p className="mt-2 text-xs text-red-600">
+              That token is not valid for this poll.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Narrows the types, access.status already covers missing polls
+  if (poll === null || results === null) return null;
+
+  const isClosed = isPollClosed(poll, now);
+
+  const runAdminAction = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+  ) => {
+    setIsBusy(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      return true;
+    } catch (err) {
+      console.error(err);
+      const fieldErrors = fieldErrorsOf(err);
+      if (fieldErrors) setEditErrors(fieldErrors);
+      toast.error(
+        err instanceof ConvexError
+          ? fieldErrors
+            ? err.data.message
+            : err.data
+          : "Something went wrong. Please try again.",
+      );
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validatePoll({ question, options, settings: poll.settings });
+    setEditErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+    const saved = await runAdminAction(
+      () => editPoll({ pollId, adminToken, question, options }),
+      "Poll updated",
+    );
+    if (saved) setIsEditing(false);
+  };
+
+  const handleCreateInvites = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let codes: string[] = [];
+    const created = await runAdminAction(async () => {
+      codes = await createInvites({
+        pollId,
+        adminToken,
+        count: inviteCount,
+        label: inviteLabel,
+      });
+    }, "Invites created");
+    if (!created) return;
+    setNewInviteLinks(
+      codes.map(
+        (code) => `${window.location.origin}/poll/${pollId}?invite=${code}`,
+      ),
+    );
+    setInviteLabel("");
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm("Delete this poll and all of its votes? This can't be undone.")
+    )
+      return;
+    const deleted = await runAdminAction(
+      () => removePoll({ pollId, adminToken }),
+      "Poll deleted",
+    );
+    if (deleted) {
+      forgetAdminToken(pollId);
+      router.push("/");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">
+            Poll Admin
+          </span>
+          <span
+            className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+              isClosed
+                ? "bg-gray-100 text-gray-600"
+                : "bg-green-100 text-green-700"
+            }`}
+          >
+            {isClosed ? "Closed" : "Open"}
+          </span>
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          {poll.question}
+        </h1>
+        <p className="text-gray-500 text-sm mb-6">
+          {results.totalVotes} votes
+          {poll.settings.closeAt !== undefined &&
+            ` · closes ${new Date(poll.settings.closeAt).toLocaleString()}`}
+        </p>
+
+        <div className="space-y-6">
+          <div className="flex gap-3">
+            {isClosed ? (
+              <button
+                onClick={() =>
+                  runAdminAction(
+                    () => reopenPoll({ pollId, adminToken }),
+                    "Poll reopened",
+                  )
+                }
+                disabled={isBusy}
+                className="flex-1 rounded-lg bg-black px-3 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Reopen Poll
+              </button>
+            ) : (
+              <button
+                onClick={() =>
+                  runAdminAction(
+                    () => closePoll({ pollId, adminToken }),
+                    "Poll closed",
+                  )
+                }
+                disabled={isBusy}
+                className="flex-1 rounded-lg bg-black px-3 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Close Poll Now
+              </button>
+            )}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!closeAt) return;
+              runAdminAction(
+                () =>
+                  extendPoll({
+                    pollId,
+                    adminToken,
+                    closeAt: new Date(closeAt).getTime(),
+                  }),
+                "Close time updated",
+              );
+            }}
+            className="border-t border-gray-100 pt-4"
+          >
+            <label
+              htmlFor="close-at"
+              className="block text-sm font-semibold leading-6 text-gray-900"
+            >
+              Close Time
+            </label>
+            <div className="mt-1 flex gap-2">
+              <input
+                type="datetime-local"
+                id="close-at"
+                value={
+                  closeAt ||
+                  (poll.settings.closeAt !== undefined
+                    ? toDateTimeLocal(poll.settings.closeAt)
+                    : "")
+                }
+                onChange={(e) => setCloseAt(e.target.value)}
+                className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3"
+              />
+              <button
+                type="submit"
+                disabled={isBusy || !closeAt}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+
+          <div className="border-t border-gray-100 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              Edit Question & Options
+            </h3>
+            {results.totalVotes > 0 ? (
+              <p className="text-xs text-gray-500">
+                Polls can&apos;t be edited once votes have been cast.
+              </p>
+            ) : isEditing ? (
+              <form onSubmit={handleSaveEdit} className="space-y-3">
+                <textarea
+                  rows={2}
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                  required
+                />
+                {editErrors.question && (
+                  <p className="-mt-2 text-xs text-red-600">
+                    {editErrors.question}
+                  </p>
+                )}
+                {options.map((option, index) => (
+                  <div key={index}>
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) => {
+                        const newOptions = [...options];
+                        newOptions[index] = e.target.value;
+                        setOptions(newOptions);
+                      }}
+                      className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                      required
+                    />
+                    {editErrors[`options.${index}`] && (
+                      <p className="mt-1 text-xs text-red-600">
+                        {editErrors[`options.${index}`]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(false)}
+                    className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isBusy}
+                    className="flex-1 rounded-lg bg-black px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Save Changes
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={() => {
+                  setQuestion(poll.question);
+                  setOptions(poll.options);
+                  setEditErrors({});
+                  setIsEditing(true);
+                }}
+                className="text-sm font-semibold text-blue-600 hover:text-blue-500"
+              >
+                Edit poll
+              </button>
+            )}
+          </div>
+
+          <div className="border-t border-gray-100 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              Suspicious Activity
+            </h3>
+            {findings === undefined ? (
+              <div className="h-10 bg-gray-100 rounded animate-pulse" />
+            ) : findings.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Nothing flagged. Votes are checked every 15 minutes.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {findings.map((finding) => (
+                  <li
+                    key={finding._id}
+                    className="rounded-lg border border-amber-200 bg-amber-50 p-3"
+                  >
+                    <p className="text-sm font-medium text-gray-900">
+                      {FINDING_LABELS[finding.kind]}
+                    </p>
+                    <p className="text-xs text-gray-600 mb-2">
+                      {finding.detail}
+                    </p>
+                    <ul className="mb-3 space-y-0.5 text-xs text-gray-600">
+                      {finding.votes.map((vote) => (
+                        <li
+                          key={vote._id}
+                          className={vote.voided ? "line-through" : ""}
+                        >
+                          {new Date(vote.timestamp).toLocaleTimeString()} ·{" "}
+                          {vote.options.join(", ")}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          if (
+                            !confirm(
+                              `Void ${finding.votes.length} votes? They will no longer be counted.`,
+                            )
+                          )
+                            return;
+                          runAdminAction(
+                            () =>
+                              voidVotes({
+                                pollId,
+                                adminToken,
+                                findingId: finding._id,
+                              }),
+                            "Votes voided and results recounted",
+                          );
+                        }}
+                        disabled={isBusy}
+                        className="flex-1 rounded-lg bg-red-50 px-3 py-1.5 text-xs font-semibold text-red-600 ring-1 ring-inset ring-red-300 hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Void Votes
+                      </button>
+                      <button
+                        onClick={() =>
+                          runAdminAction(
+                            () =>
+                              dismissFinding({
+                                pollId,
+                                adminToken,
+                                findingId: finding._id,
+                              }),
+                            "Dismissed",
+                          )
+                        }
+                        disabled={isBusy}
+                        className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {getVisibility(poll) === "passcode" && (
+            <div className="border-t border-gray-100 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                Access
+              </h3>
+              <p className="text-xs text-gray-500">
+                Visitors need the passcode you set when creating this poll.
+                Share it together with the link.
+              </p>
+            </div>
+          )}
+
+          {getVisibility(poll) === "invite" && (
+            <div className="border-t border-gray-100 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                Invites
+              </h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Each invite link works for one person. Revoking an invite also
+                locks out whoever used it.
+              </p>
+              <form onSubmit={handleCreateInvites} className="flex gap-2 mb-3">
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={inviteCount}
+                  onChange={(e) => setInviteCount(Number(e.target.value))}
+                  aria-label="Number of invites"
+                  className="block w-20 rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                />
+                <input
+                  type="text"
+                  value={inviteLabel}
+                  onChange={(e) => setInviteLabel(e.target.value)}
+                  placeholder="Label (optional)"
+                  className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white"
+                />
+                <button
+                  type="submit"
+                  disabled={isBusy}
+                  className="rounded-lg bg-black px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                >
+                  Create
+                </button>
+              </form>
+
+              {newInviteLinks.length > 0 && (
+                <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 mb-3">
+                  <p className="text-xs text-gray-700 mb-2">
+                    Copy these now, they won&apos;t be shown again.
+                  </p>
+                  <ul className="space-y-1 mb-2">
+                    {newInviteLinks.map((link) => (
+                      <li
+                        key={link}
+                        className="truncate font-mono text-xs text-gray-600"
+                      >
+                        {link}
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => {
+                      navigator.clipboard.writeText(newInviteLinks.join("\n"));
+                      toast.success("Invite links copied");
+                    }}
+                    className="text-xs font-semibold text-blue-600 hover:text-blue-500"
+                  >
+                    Copy all
+                  </button>
+                </div>
+              )}
+
+              {invites === undefined ? (
+                <div className="h-10 bg-gray-100 rounded animate-pulse" />
+              ) : invites.length === 0 ? (
+                <p className="text-xs text-gray-500">No invites yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-xs">
+                  {invites.map((invite) => (
+                    <li
+                      key={invite._id}
+                      className="flex items-center justify-between py-1.5"
+                    >
+                      <span className="text-gray-700">
+                        {invite.label ?? "Invite"} ·{" "}
+                        {new Date(invite.createdAt).toLocaleDateString()}
+                      </span>
+                      <span className="flex items-center gap-3">
+                        <span className="text-gray-500">
+                          {invite.revokedAt !== undefined
+                            ? "Revoked"
+                            : invite.redeemedAt !== undefined
+                              ? "Used"
+                              : "Unused"}
+                        </span>
+                        {invite.revokedAt === undefined && (
+                          <button
+                            onClick={() =>
+                              runAdminAction(
+                                () =>
+                                  revokeInvite({
+                                    pollId,
+                                    adminToken,
+                                    inviteId: invite._id,
+                                  }),
+                                "Invite revoked",
+                              )
+                            }
+                            disabled={isBusy}
+                            className="font-semibold text-red-600 hover:text-red-500 disabled:opacity-50"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="border-t border-gray-100 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              Export Data
+            </h3>
+            <ExportButtons pollId={pollId} adminToken={adminToken} />
+            <div className="flex items-center gap-x-3 mt-3">
+              <input
+                id="public-export"
+                type="checkbox"
+                checked={!!poll.settings.publicExport}
+                onChange={(e) =>
+                  runAdminAction(
+                    () =>
+                      setPublicExport({
+                        pollId,
+                        adminToken,
+                        publicExport: e.target.checked,
+                      }),
+                    e.target.checked
+                      ? "Exports are now public"
+                      : "Exports are now private",
+                  )
+                }
+                disabled={isBusy}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 bg-white"
+              />
+              <label
+                htmlFor="public-export"
+                className="block text-sm leading-6 text-gray-900"
+              >
+                Anyone can download exports
+              </label>
+            </div>
+          </div>
+
+          <div className="border-t border-gray-100 pt-4 flex gap-3">
+            {/* Signed-in creators may have come without the token */}
+            {adminToken && (
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(
+                    `${window.location.origin}/poll/${pollId}/admin#token=${adminToken}`,
+                  );
+                  toast.success("Admin link copied. Keep it private!");
+                }}
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50"
+              >
+                Copy Admin Link
+              </button>
+            )}
+            <button
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="flex-1 rounded-lg bg-red-50 px-3 py-2.5 text-sm font-semibold text-red-600 shadow-sm hover:bg-red-100 ring-1 ring-inset ring-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete Poll
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 text-center">
+          <Link
+            href={`/poll/${pollId}`}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Back to poll
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
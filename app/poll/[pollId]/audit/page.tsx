@@ -0,0 +1,241 @@
+"use client";
+
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { getReceipts } from "../../../utils/receipts";
+import { useAccessToken } from "../../../utils/pollAccess";
+import { resultsFromTally } from "../../../../convex/lib/polls";
+import { computeTally } from "../../../../convex/lib/tallies";
+import { toReceiptId, verifyAuditLog } from "../../../../convex/lib/audit";
+
+type Verification = Awaited<ReturnType<typeof verifyAuditLog>>;
+
+// Newest entries shown in the table, the whole log is still verified
+const SHOWN_ENTRIES = 100;
+
+export default function AuditPage() {
+  const params = useParams();
+  const pollId = params.pollId as Id<"polls">;
+
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [myReceiptIds, setMyReceiptIds] = useState<string[]>([]);
+  const [lookup, setLookup] = useState("");
+
+  const accessToken = useAccessToken(pollId);
+  const poll = useQuery(api.polls.get, { pollId, accessToken });
+  const results = useQuery(api.polls.getResults, { pollId, accessToken });
+  const {
+    results: entries,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.audit.entries,
+    { pollId, accessToken },
+    { initialNumItems: 500 },
+  );
+
+  // The chain can only be checked as a whole, so keep loading until done
+  useEffect(() => {
+    if (status === "CanLoadMore") loadMore(500);
+  }, [status, loadMore]);
+
+  useEffect(() => {
+    if (status !== "Exhausted") return;
+    let cancelled = false;
+    verifyAuditLog(pollId, entries).then((result) => {
+      if (!cancelled) setVerification(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pollId, entries, status]);
+
+  useEffect(() => {
+    Promise.all(getReceipts(pollId).map(toReceiptId)).then(setMyReceiptIds);
+  }, [pollId]);
+
+  if (poll === undefined || results === undefined) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="animate-pulse flex flex-col items-center">
+          <div className="h-4 w-32 bg-gray-200 rounded mb-4"></div>
+          <div className="h-8 w-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (poll === null || results === null) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-gray-100 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            Poll not found
+          </h1>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            Create a new poll
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Recount from the replayed log and compare with the published results
+  const recount =
+    verification?.valid &&
+    resultsFromTally(poll, computeTally(poll, verification.ballots));
+  const countsMatch =
+    recount &&
+    recount.totalVotes === results.totalVotes &&
+    recount.options.every(
+      (option, index) => option.votes === results.options[index].votes,
+    );
+
+  const ballotText = (entry: (typeof entries)[number]) =>
+    (entry.selections ?? [entry.optionIndex!])
+      .map((index) => poll.options[index])
+      .join(results.ballotType === "ranked" ? " > " : ", ");
+
+  // The latest entry for a receipt says whether its vote still counts
+  const receiptStatus = (receiptId: string) => {
+    const latest = entries.findLast((entry) => entry.receiptId === receiptId);
+    if (!latest) return "Not found in the log";
+    if (latest.kind === "retract") return `Retracted (entry #${latest.seq})`;
+    if (latest.kind === "void") {
+      return `Voided by the poll creator (entry #${latest.seq})`;
+    }
+    return `Counted as ${ballotText(latest)} (entry #${latest.seq})`;
+  };
+
+  const lookupId = lookup.trim().toLowerCase();
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-gray-50 text-gray-900 font-sans">
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">
+          Audit log
+        </p>
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">
+          {poll.question}
+        </h1>
+
+        <div className="space-y-2 text-sm mb-6">
+          {status !== "Exhausted" || !verification ? (
+            <p className="text-gray-500">
+              Verifying {entries.length} entries...
+            </p>
+          ) : verification.valid ? (
+            <>
+              <p className="text-green-700">
+                ✓ Hash chain intact ({entries.length} entries)
+              </p>
+              <p className={countsMatch ? "text-green-700" : "text-red-600"}>
+                {countsMatch
+                  ? "✓ Recounting the log gives the published results"
+                  : "✗ Recounting the log doesn't match the published results"}
+              </p>
+              <p className="text-xs text-gray-400 break-all">
+                Head hash: {verification.head}
+              </p>
+            </>
+          ) : (
+            <p className="text-red-600">
+              ✗ Hash chain broken at entry #{verification.brokenAt}
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 pt-4 mb-6">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">
+            Check a receipt
+          </h3>
+          {myReceiptIds.length > 0 && (
+            <ul className="mb-3 space-y-1 text-xs text-gray-600">
+              {myReceiptIds.map((receiptId) => (
+                <li key={receiptId}>
+                  <span className="font-mono">{receiptId.slice(0, 12)}…</span>{" "}
+                  (yours): {receiptStatus(receiptId)}
+                </li>
+              ))}
+            </ul>
+          )}
+          <input
+            type="text"
+            value={lookup}
+            onChange={(e) => setLookup(e.target.value)}
+            placeholder="Receipt ID"
+            className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6 px-3 bg-white font-mono"
+          />
+          {lookupId && (
+            <p className="mt-2 text-xs text-gray-600">
+              {receiptStatus(lookupId)}
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 pt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">
+            Latest entries
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">#</th>
+                  <th className="py-1 pr-3 font-medium">Time</th>
+                  <th className="py-1 pr-3 font-medium">Receipt ID</th>
+                  <th className="py-1 pr-3 font-medium">Entry</th>
+                  <th className="py-1 font-medium">Hash</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700">
+                {entries
+                  .slice(-SHOWN_ENTRIES)
+                  .reverse()
+                  .map((entry) => (
+                    <tr key={entry.seq} className="border-t border-gray-50">
+                      <td className="py-1 pr-3 tabular-nums">{entry.seq}</td>
+                      <td className="py-1 pr-3 whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="py-1 pr-3 font-mono">
+                        {entry.receiptId.slice(0, 12)}…
+                      </td>
+                      <td className="py-1 pr-3">
+                        {entry.kind === "retract"
+                          ? "Retracted"
+                          : entry.kind === "void"
+                            ? "Voided"
+                            : `${entry.kind === "change" ? "Changed to" : "Voted"} ${ballotText(entry)}`}
+                      </td>
+                      <td className="py-1 font-mono">
+                        {entry.hash.slice(0, 12)}…
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <p className="mt-6 text-xs text-gray-400">
+          Votes cast before the audit log was introduced aren&apos;t in it, so
+          older polls won&apos;t recount to their published results.
+        </p>
+
+        <div className="mt-4 text-center">
+          <Link
+            href={`/poll/${pollId}`}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Back to poll
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { ImageResponse } from "next/og";
+import { isPollClosed } from "../../../convex/lib/polls";
+import { loadAccess, loadPoll } from "../../utils/serverPoll";
+
+export const alt = "Poll question and current results";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// More bars than this don't fit, the rest are summarised in the footer
+const SHOWN_OPTIONS = 5;
+
+// Share card with the question and live result bars. Rendered by Satori,
+// so every element with more than one child needs display: flex.
+export default async function Image({
+  params,
+}: {
+  params: Promise<{ pollId: string }>;
+}) {
+  const { pollId } = await params;
+  const data = await loadPoll(pollId);
+
+  if (!data) {
+    // Crawlers have no access cookie, so restricted polls land here too
+    const access = await loadAccess(pollId);
+    return new ImageResponse(
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "#f9fafb",
+          color: "#6b7280",
+          fontSize: 56,
+        }}
+      >
+        {access ? "Private poll" : "Poll not found"}
+      </div>,
+      size,
+    );
+  }
+
+  const { poll, results } = data;
+  // Leading options first, so long polls still show the interesting part
+  const options = results.options
+    .map((option, index) => ({ ...option, index }))
+    .sort((a, b) => b.votes - a.votes || a.index - b.index)
+    .slice(0, SHOWN_OPTIONS);
+  const hidden = results.options.length - options.length;
+  const closed = isPollClosed(poll);
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        padding: 64,
+        background: "#ffffff",
+        color: "#111827",
+      }}
+    >
+      <div
+        style={{
+          fontSize: poll.question.length > 80 ? 44 : 56,
+          fontWeight: 700,
+          lineHeight: 1.2,
+          marginBottom: 40,
+        }}
+      >
+        {poll.question}
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+        {options.map((option) => (
+          <div
+            key={option.index}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              marginBottom: 20,
+            }}
+          >
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                fontSize: 28,
+                marginBottom: 8,
+              }}
+            >
+              <span>{option.text}</span>
+              <span>{Math.round(option.percentage)}%</span>
+            </div>
+            <div
+              style={{
+                display: "flex",
+                width: "100%",
+                height: 16,
+                borderRadius: 8,
+                background: "#f3f4f6",
+              }}
+            >
+              <div
+                style={{
+                  width: `${option.percentage}%`,
+                  height: 16,
+                  borderRadius: 8,
+                  background: "#2563eb",
+                }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: 24,
+          color: "#6b7280",
+        }}
+      >
+        <span>
+          {`${results.totalVotes} ${results.totalVotes === 1 ? "vote" : "votes"}${
+            hidden > 0 ? ` · ${hidden} more options` : ""
+          }`}
+        </span>
+        <span>{closed ? "Final results" : "Vote now"}</span>
+      </div>
+    </div>,
+    size,
+  );
+}
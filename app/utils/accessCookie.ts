@@ -0,0 +1,3 @@
+// Shared by the browser helpers in pollAccess.ts and the server-rendered
+// poll page, which reads the cookie to load restricted polls.
+export const accessCookieName = (pollId: string) => `poll_access_${pollId}`;
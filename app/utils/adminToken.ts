@@ -0,0 +1,26 @@
+// The admin token is only returned once, at creation, so the creator's
+// browser keeps it. It can be moved to another device via the admin link.
+const storageKey = (pollId: string) => `poll_admin_${pollId}`;
+
+export function saveAdminToken(pollId: string, token: string) {
+  localStorage.setItem(storageKey(pollId), token);
+}
+
+export function getAdminToken(pollId: string): string | null {
+  return localStorage.getItem(storageKey(pollId));
+}
+
+export function forgetAdminToken(pollId: string) {
+  localStorage.removeItem(storageKey(pollId));
+}
+
+// Every poll this browser can manage, for the dashboard
+export function listAdminTokens() {
+  const prefix = storageKey("");
+  return Object.keys(localStorage)
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => ({
+      pollId: key.slice(prefix.length),
+      adminToken: localStorage.getItem(key)!,
+    }));
+}
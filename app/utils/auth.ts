@@ -0,0 +1,102 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+// Browser side of the sign-in in authServer.ts. The session cookie is
+// httpOnly, so the current user and Convex ID token come from
+// /api/auth/session and are shared here between every component.
+
+export type AuthUser = { subject: string; name: string; email: string };
+
+export type AuthSession = {
+  // False when the server has no sign-in configured
+  enabled: boolean;
+  // Local development only, any email without a password
+  mockSignIn: boolean;
+  // Through the identity provider's own sign-in page
+  providerSignIn: boolean;
+  user: AuthUser | null;
+  token: string | null;
+};
+
+let session: AuthSession | undefined;
+let pending: Promise<AuthSession> | null = null;
+const listeners = new Set<() => void>();
+
+function publish(next: AuthSession) {
+  session = next;
+  listeners.forEach((listener) => listener());
+  return next;
+}
+
+// Fetches the session again, which also mints a fresh ID token
+export function refreshSession() {
+  pending ??= fetch("/api/auth/session")
+    .then((res) => res.json() as Promise<AuthSession>)
+    .catch(() => ({
+      enabled: false,
+      mockSignIn: false,
+      providerSignIn: false,
+      user: null,
+      token: null,
+    }))
+    .then(publish)
+    .finally(() => {
+      pending = null;
+    });
+  return pending;
+}
+
+// Leaves the page for the identity provider, which sends the browser back
+// to the current page once signed in
+export function signInWithProvider() {
+  const returnTo = window.location.pathname + window.location.search;
+  window.location.assign(
+    `/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`,
+  );
+}
+
+export async function signInWithMock(name: string, email: string) {
+  const res = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, email }),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || "Sign-in failed.");
+  publish(data);
+}
+
+export async function signOut() {
+  await fetch("/api/auth/session", { method: "DELETE" });
+  if (session) publish({ ...session, user: null, token: null });
+}
+
+// For requests made outside Convex's client, like votes to /vote
+export async function getAuthToken() {
+  return (await refreshSession()).token;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  if (!session) refreshSession();
+  return () => listeners.delete(listener);
+}
+
+// Undefined until the first /api/auth/session response
+export function useAuthSession() {
+  return useSyncExternalStore(
+    subscribe,
+    () => session,
+    () => undefined,
+  );
+}
+
+// For ConvexProviderWithAuth
+export function useSessionAuth() {
+  const current = useAuthSession();
+  const isLoading = current === undefined;
+  const isAuthenticated = !!current?.user;
+  return useMemo(
+    () => ({ isLoading, isAuthenticated, fetchAccessToken: getAuthToken }),
+    [isLoading, isAuthenticated],
+  );
+}
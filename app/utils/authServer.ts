@@ -0,0 +1,258 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  randomBytes,
+  sign,
+  verify,
+} from "node:crypto";
+import { cookies } from "next/headers";
+
+// The Next app is the OpenID Connect issuer Convex trusts for polls that
+// require sign-in. Who someone is comes from a real identity provider
+// (AUTH_OIDC_*, see /api/auth/login and /api/auth/callback), or in local
+// development from a mock sign-in that takes any email address without a
+// password, which is only on with AUTH_MOCK_SIGN_IN.
+//
+// The session lives in an httpOnly cookie holding a long-lived JWT. Convex
+// gets short-lived ID tokens minted from it, which it checks against the
+// keys served from /api/auth/jwks (see convex/auth.config.ts).
+
+export const SESSION_COOKIE = "auth_session";
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+const ID_TOKEN_TTL_SECONDS = 60 * 60;
+
+// Must match applicationID in convex/auth.config.ts
+const CONVEX_AUDIENCE = "convex";
+const SESSION_AUDIENCE = "session";
+
+export type AuthUser = { subject: string; name: string; email: string };
+
+// Null when AUTH_PRIVATE_KEY or AUTH_ISSUER_URL isn't set, which turns
+// sign-in off.
+export function authConfig() {
+  const pem = process.env.AUTH_PRIVATE_KEY;
+  const issuer = process.env.AUTH_ISSUER_URL;
+  if (!pem || !issuer) return null;
+
+  // Env files often hold the PEM on one line with literal \n
+  const privateKey = createPrivateKey(pem.replace(/\\n/g, "\n"));
+  return { issuer, privateKey, publicKey: createPublicKey(privateKey) };
+}
+
+type AuthConfig = NonNullable<ReturnType<typeof authConfig>>;
+
+function keyId(publicKey: KeyObject) {
+  const { n } = publicKey.export({ format: "jwk" });
+  return createHash("sha256").update(n!).digest("base64url").slice(0, 16);
+}
+
+export function publicJwk(publicKey: KeyObject): JsonWebKey {
+  return {
+    ...publicKey.export({ format: "jwk" }),
+    kid: keyId(publicKey),
+    alg: "RS256",
+    use: "sig",
+  };
+}
+
+const encodePart = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function signJwt(
+  config: AuthConfig,
+  audience: string,
+  user: AuthUser,
+  ttlSeconds: number,
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodePart({
+    alg: "RS256",
+    typ: "JWT",
+    kid: keyId(config.publicKey),
+  });
+  const payload = encodePart({
+    iss: config.issuer,
+    aud: audience,
+    sub: user.subject,
+    name: user.name,
+    email: user.email,
+    iat: now,
+    exp: now + ttlSeconds,
+  });
+  const signature = sign(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    config.privateKey,
+  ).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+function verifySession(config: AuthConfig, token: string): AuthUser | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const valid = verify(
+      "sha256",
+      Buffer.from(`${header}.${payload}`),
+      config.publicKey,
+      Buffer.from(signature, "base64url"),
+    );
+    if (!valid) return null;
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (
+      claims.iss !== config.issuer ||
+      claims.aud !== SESSION_AUDIENCE ||
+      claims.exp * 1000 < Date.now()
+    ) {
+      return null;
+    }
+    return { subject: claims.sub, name: claims.name, email: claims.email };
+  } catch {
+    return null;
+  }
+}
+
+// Never in production builds, whatever the flag says: anyone could sign in
+// as anyone and vote once per made-up email address.
+export function mockSignInEnabled() {
+  return (
+    process.env.AUTH_MOCK_SIGN_IN === "true" &&
+    process.env.NODE_ENV !== "production"
+  );
+}
+
+// Mock accounts are keyed by email, so signing in again with the same
+// address is the same voter.
+export function mockUser(name: string, email: string): AuthUser {
+  const normalized = email.trim().toLowerCase();
+  return {
+    subject: `mock|${normalized}`,
+    name: name.trim() || normalized,
+    email: normalized,
+  };
+}
+
+export function createSession(config: AuthConfig, user: AuthUser) {
+  return signJwt(config, SESSION_AUDIENCE, user, SESSION_MAX_AGE_SECONDS);
+}
+
+// The signed-in user and a fresh ID token for Convex, or null when signed
+// out. Server components pass the token to fetchQuery and preloadQuery.
+export async function currentSession() {
+  const config = authConfig();
+  if (!config) return null;
+  const session = (await cookies()).get(SESSION_COOKIE)?.value;
+  const user = session ? verifySession(config, session) : null;
+  if (!user) return null;
+  // Sessions left over from mock sign-in end when it's turned off
+  if (user.subject.startsWith("mock|") && !mockSignInEnabled()) return null;
+  return {
+    user,
+    token: signJwt(config, CONVEX_AUDIENCE, user, ID_TOKEN_TTL_SECONDS),
+  };
+}
+
+export const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+} as const;
+
+// The upstream identity provider, or null when AUTH_OIDC_ISSUER,
+// AUTH_OIDC_CLIENT_ID or AUTH_OIDC_CLIENT_SECRET isn't set.
+export function oidcProvider() {
+  const issuer = process.env.AUTH_OIDC_ISSUER;
+  const clientId = process.env.AUTH_OIDC_CLIENT_ID;
+  const clientSecret = process.env.AUTH_OIDC_CLIENT_SECRET;
+  if (!issuer || !clientId || !clientSecret) return null;
+  return { issuer: issuer.replace(/\/$/, ""), clientId, clientSecret };
+}
+
+type OidcProvider = NonNullable<ReturnType<typeof oidcProvider>>;
+
+export async function discoverOidc(provider: OidcProvider) {
+  const res = await fetch(
+    `${provider.issuer}/.well-known/openid-configuration`,
+  );
+  if (!res.ok) throw new Error(`OIDC discovery failed: ${res.status}`);
+  const metadata = await res.json();
+  return {
+    authorizationEndpoint: metadata.authorization_endpoint as string,
+    tokenEndpoint: metadata.token_endpoint as string,
+  };
+}
+
+// Kept in a short-lived cookie between /api/auth/login and the callback
+export const LOGIN_COOKIE = "auth_login";
+export const LOGIN_MAX_AGE_SECONDS = 10 * 60;
+
+export type PendingLogin = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+};
+
+export function startLogin(returnTo: string): PendingLogin {
+  return {
+    state: randomBytes(32).toString("base64url"),
+    nonce: randomBytes(32).toString("base64url"),
+    codeVerifier: randomBytes(32).toString("base64url"),
+    // Only paths on this site, so the callback can't be used to redirect
+    // somewhere else
+    returnTo:
+      returnTo.startsWith("/") && !returnTo.startsWith("//") ? returnTo : "/",
+  };
+}
+
+// A failed sign-in goes back to where it started, with `error` saying why
+export function signInErrorUrl(
+  issuer: string,
+  returnTo: string,
+  error: "expired" | "failed" | "unavailable",
+) {
+  const url = new URL(returnTo, issuer);
+  url.searchParams.set("error", error);
+  return url;
+}
+
+export const codeChallenge = (codeVerifier: string) =>
+  createHash("sha256").update(codeVerifier).digest("base64url");
+
+// The ID token comes straight from the provider's token endpoint over TLS,
+// which OpenID Connect accepts in place of checking its signature. The
+// claims still have to be for this client and this login.
+export function oidcUser(
+  provider: OidcProvider,
+  idToken: string,
+  nonce: string,
+): AuthUser | null {
+  try {
+    const claims = JSON.parse(
+      Buffer.from(idToken.split(".")[1], "base64url").toString(),
+    );
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (
+      claims.iss?.replace(/\/$/, "") !== provider.issuer ||
+      !audience.includes(provider.clientId) ||
+      claims.nonce !== nonce ||
+      claims.exp * 1000 < Date.now() ||
+      typeof claims.sub !== "string"
+    ) {
+      return null;
+    }
+    const email = typeof claims.email === "string" ? claims.email : "";
+    return {
+      subject: `oidc|${claims.sub}`,
+      name: claims.name || email || claims.sub,
+      email,
+    };
+  } catch {
+    return null;
+  }
+}
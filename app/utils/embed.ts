@@ -0,0 +1,55 @@
+import { Id } from "../../convex/_generated/dataModel";
+
+export type EmbedTheme = "light" | "dark" | "auto";
+
+export const EMBED_THEMES: EmbedTheme[] = ["light", "dark", "auto"];
+
+// Starting size for the iframe; the widget posts poll:resize messages with
+// its real height once it has rendered.
+export const EMBED_WIDTH = 480;
+export const EMBED_HEIGHT = 420;
+
+// Messages the widget posts to the embedding page.
+export type EmbedMessage =
+  | { type: "poll:resize"; pollId: Id<"polls">; height: number }
+  | { type: "poll:vote"; pollId: Id<"polls">; receiptId: string };
+
+export function embedUrl(
+  origin: string,
+  pollId: Id<"polls">,
+  theme: EmbedTheme = "light",
+) {
+  const url = `${origin}/embed/${pollId}`;
+  return theme === "light" ? url : `${url}?theme=${theme}`;
+}
+
+const escapeAttribute = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// The <iframe> snippet given out by the share button and the oEmbed endpoint.
+export function embedCode({
+  origin,
+  pollId,
+  title,
+  theme,
+  width = EMBED_WIDTH,
+  height = EMBED_HEIGHT,
+}: {
+  origin: string;
+  pollId: Id<"polls">;
+  title: string;
+  theme?: EmbedTheme;
+  width?: number;
+  height?: number;
+}) {
+  return (
+    `<iframe src="${escapeAttribute(embedUrl(origin, pollId, theme))}" ` +
+    `width="${width}" height="${height}" title="${escapeAttribute(title)}" ` +
+    `style="border:0;max-width:100%" loading="lazy" ` +
+    `allow="camera"></iframe>`
+  );
+}
@@ -0,0 +1,37 @@
+import { CONVEX_SITE_URL } from "./vote";
+
+export type ExportKind = "results.csv" | "timeline.csv" | "json";
+
+// Fetches an export from the /export HTTP action and saves it as a file.
+// The admin token goes in a header rather than the URL so it isn't logged.
+export async function downloadExport(
+  pollId: string,
+  kind: ExportKind,
+  adminToken?: string | null,
+) {
+  const params = new URLSearchParams({ pollId });
+  if (kind === "json") {
+    params.set("format", "json");
+  } else {
+    params.set("format", "csv");
+    params.set("table", kind.replace(".csv", ""));
+  }
+
+  const res = await fetch(`${CONVEX_SITE_URL}/export?${params}`, {
+    headers: adminToken ? { Authorization: `Bearer ${adminToken}` } : {},
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error || "Export failed. Please try again.");
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download =
+    kind === "json"
+      ? `poll-${pollId}.json`
+      : `poll-${pollId}-${kind.replace(".csv", "")}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
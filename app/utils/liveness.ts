@@ -0,0 +1,95 @@
+// Landmark maths for the FaceAuth liveness check. Indices follow the
+// 68-point model used by face-api.js (faceLandmark68Net).
+
+export type Point = { x: number; y: number };
+
+export type LivenessChallenge = "blink" | "turnLeft" | "turnRight";
+
+export const CHALLENGE_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: "Blink slowly",
+  turnLeft: "Turn your head to your left",
+  turnRight: "Turn your head to your right",
+};
+
+// Below this the eyes count as closed, above OPEN as open.
+const EYE_CLOSED = 0.2;
+const EYE_OPEN = 0.25;
+// Nose position across the face, 0.5 is looking straight ahead.
+const YAW_FRONTAL = 0.12;
+const YAW_TURNED = 0.18;
+
+export function pickChallenge(): LivenessChallenge {
+  const challenges: LivenessChallenge[] = ["blink", "turnLeft", "turnRight"];
+  return challenges[Math.floor(Math.random() * challenges.length)];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Eye aspect ratio (Soukupová & Čech): eyelid gap over eye width, averaged
+// over both eyes. Drops towards 0 while blinking.
+export function eyeAspectRatio(landmarks: Point[]) {
+  const ear = (p: Point[]) =>
+    (distance(p[1], p[5]) + distance(p[2], p[4])) / (2 * distance(p[0], p[3]));
+  return (ear(landmarks.slice(36, 42)) + ear(landmarks.slice(42, 48))) / 2;
+}
+
+// Where the nose tip sits between the jaw ends, minus 0.5. Positive when
+// the voter turns to their left (the camera image isn't mirrored).
+export function headYaw(landmarks: Point[]) {
+  const left = landmarks[0];
+  const right = landmarks[16];
+  const nose = landmarks[30];
+  return (nose.x - left.x) / (right.x - left.x) - 0.5;
+}
+
+export function isFrontal(landmarks: Point[]) {
+  return (
+    Math.abs(headYaw(landmarks)) < YAW_FRONTAL &&
+    eyeAspectRatio(landmarks) > EYE_OPEN
+  );
+}
+
+// Tracks one challenge across frames. It passes once the action has been
+// seen and the voter is back facing the camera.
+export class ChallengeTracker {
+  private performed = false;
+  private eyesClosed = false;
+
+  constructor(readonly challenge: LivenessChallenge) {}
+
+  get done() {
+    return this.performed;
+  }
+
+  update(landmarks: Point[]) {
+    if (this.performed) return;
+
+    if (this.challenge === "blink") {
+      const ear = eyeAspectRatio(landmarks);
+      if (ear < EYE_CLOSED) this.eyesClosed = true;
+      else if (this.eyesClosed && ear > EYE_OPEN) this.performed = true;
+      return;
+    }
+
+    const yaw = headYaw(landmarks);
+    if (this.challenge === "turnLeft" ? yaw > YAW_TURNED : yaw < -YAW_TURNED) {
+      this.performed = true;
+    }
+  }
+}
+
+export function euclideanDistance(a: ArrayLike<number>, b: ArrayLike<number>) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+// Element-wise mean, steadier than any single frame's descriptor.
+export function averageDescriptors(descriptors: Float32Array[]) {
+  const mean = new Float32Array(descriptors[0].length);
+  for (const descriptor of descriptors) {
+    for (let i = 0; i < mean.length; i++) mean[i] += descriptor[i];
+  }
+  for (let i = 0; i < mean.length; i++) mean[i] /= descriptors.length;
+  return mean;
+}
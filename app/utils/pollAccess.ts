@@ -0,0 +1,33 @@
+import { useSyncExternalStore } from "react";
+import { getAdminToken } from "./adminToken";
+import { accessCookieName } from "./accessCookie";
+
+// Access tokens for passcode and invite-only polls live in a cookie rather
+// than localStorage so the server-rendered poll page can read them too.
+const ONE_YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+export function saveAccessToken(pollId: string, token: string) {
+  document.cookie =
+    `${accessCookieName(pollId)}=${encodeURIComponent(token)}; ` +
+    `path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+}
+
+export function getAccessToken(pollId: string): string | null {
+  const prefix = `${accessCookieName(pollId)}=`;
+  const cookie = document.cookie
+    .split("; ")
+    .find((part) => part.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+const subscribeNever = () => () => {};
+
+// What client pages pass as `accessToken`: the saved access token, or the
+// admin token on the creator's browser. Undefined while server rendering.
+export function useAccessToken(pollId: string) {
+  return useSyncExternalStore(
+    subscribeNever,
+    () => getAccessToken(pollId) ?? getAdminToken(pollId) ?? undefined,
+    () => undefined,
+  );
+}
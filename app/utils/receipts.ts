@@ -0,0 +1,26 @@
+// Receipts returned by /vote, kept per poll so this browser can find, change
+// or retract its votes later.
+const storageKey = (pollId: string) => `poll_receipts_${pollId}`;
+
+export function getReceipts(pollId: string): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(pollId)) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function saveReceipt(pollId: string, receipt: string) {
+  const receipts = getReceipts(pollId);
+  localStorage.setItem(
+    storageKey(pollId),
+    JSON.stringify([...receipts, receipt]),
+  );
+}
+
+export function forgetReceipt(pollId: string, receipt: string) {
+  localStorage.setItem(
+    storageKey(pollId),
+    JSON.stringify(getReceipts(pollId).filter((r) => r !== receipt)),
+  );
+}
@@ -0,0 +1,84 @@
+import { fetchQuery, preloadedQueryResult, preloadQuery } from "convex/nextjs";
+import { cookies, headers } from "next/headers";
+import { cache } from "react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { isPollClosed } from "../../convex/lib/polls";
+import { accessCookieName } from "./accessCookie";
+import { currentSession } from "./authServer";
+
+// Helpers for server components and route handlers. Queries go over HTTP,
+// so the results are snapshots; pages hand the preloaded payloads to
+// usePreloadedQuery to turn them back into live subscriptions.
+
+async function accessArgs(pollId: string) {
+  const cookieStore = await cookies();
+  return {
+    pollId: pollId as Id<"polls">,
+    accessToken: cookieStore.get(accessCookieName(pollId))?.value,
+  };
+}
+
+// Queries run as the signed-in user, so creators see their own private
+// polls without an access token
+async function queryOptions() {
+  const session = await currentSession();
+  return { token: session?.token };
+}
+
+// Whether the poll exists and this visitor may see it, null for unknown or
+// malformed ids (those fail argument validation rather than returning null).
+export const loadAccess = cache(async (pollId: string) => {
+  try {
+    return await fetchQuery(
+      api.access.status,
+      await accessArgs(pollId),
+      await queryOptions(),
+    );
+  } catch {
+    return null;
+  }
+});
+
+// The poll and its current results, or null if it can't be shown. Cached
+// per request, so generateMetadata and the page share one round trip.
+export const loadPoll = cache(async (pollId: string) => {
+  try {
+    const args = await accessArgs(pollId);
+    const options = await queryOptions();
+    const [preloadedPoll, preloadedResults] = await Promise.all([
+      preloadQuery(api.polls.get, args, options),
+      preloadQuery(api.polls.getResults, args, options),
+    ]);
+    const poll = preloadedQueryResult(preloadedPoll);
+    const results = preloadedQueryResult(preloadedResults);
+    return poll && results
+      ? { poll, results, preloadedPoll, preloadedResults }
+      : null;
+  } catch {
+    return null;
+  }
+});
+
+export type LoadedPoll = NonNullable<Awaited<ReturnType<typeof loadPoll>>>;
+
+// One line for link previews: the options, then the vote count.
+export function describePoll({ poll, results }: LoadedPoll) {
+  const count = `${results.totalVotes} ${results.totalVotes === 1 ? "vote" : "votes"}`;
+  return isPollClosed(poll)
+    ? `Final results: ${results.options
+        .map((option) => `${option.text} ${Math.round(option.percentage)}%`)
+        .join(" · ")} (${count})`
+    : `${poll.options.join(" · ")}. ${count} so far, cast yours.`;
+}
+
+// The origin this request came in on, for absolute URLs in metadata.
+export async function requestOrigin() {
+  const requestHeaders = await headers();
+  const host =
+    requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  const protocol =
+    requestHeaders.get("x-forwarded-proto") ??
+    (host?.startsWith("localhost") ? "http" : "https");
+  return `${protocol}://${host}`;
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Doc } from "../../convex/_generated/dataModel";
+import { getBallotType } from "../../convex/lib/ballots";
+import { VoteReceipt } from "../../convex/lib/receipts";
+import { sendVote, VoteError } from "./vote";
+import { saveReceipt } from "./receipts";
+import { getAuthToken } from "./auth";
+
+type VotingPoll = Pick<Doc<"polls">, "_id" | "options" | "settings">;
+
+// Ballot state and the casting flow (bot check, Face ID, /vote), shared by
+// the poll page and the embeddable widget. `poll` may still be loading.
+export function usePollVoting(
+  poll: VotingPoll | null | undefined,
+  fingerprint: string | null,
+  accessToken: string | undefined,
+  onVoted: (vote: VoteReceipt) => void,
+) {
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  // Multi-select and ranked ballots
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  const [ranking, setRanking] = useState<number[] | null>(null);
+  const [isVoting, setIsVoting] = useState(false);
+  const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
+  // Bumped to remount the widget, tokens are single use on the server
+  const [turnstileKey, setTurnstileKey] = useState(0);
+  const [showFaceAuth, setShowFaceAuth] = useState(false);
+
+  const options = poll?.options ?? [];
+  const ballotType = poll ? getBallotType(poll) : "single";
+  const minSelections = poll?.settings.minSelections ?? 1;
+  const maxSelections = poll?.settings.maxSelections ?? options.length;
+  // Until the voter drags anything, the ranking is the poll's own order
+  const currentRanking = ranking ?? options.map((_, i) => i);
+
+  // What gets submitted, or null while the ballot is incomplete
+  let ballot: { optionIndex: number; selections?: number[] } | null = null;
+  if (ballotType === "single" && selectedOption !== null) {
+    ballot = { optionIndex: selectedOption };
+  } else if (
+    ballotType === "multi" &&
+    selectedOptions.length >= minSelections &&
+    selectedOptions.length <= maxSelections
+  ) {
+    const selections = [...selectedOptions].sort((a, b) => a - b);
+    ballot = { optionIndex: selections[0], selections };
+  } else if (ballotType === "ranked") {
+    ballot = { optionIndex: currentRanking[0], selections: currentRanking };
+  }
+
+  const toggleOption = (index: number) => {
+    if (selectedOptions.includes(index)) {
+      setSelectedOptions(selectedOptions.filter((i) => i !== index));
+    } else if (selectedOptions.length < maxSelections) {
+      setSelectedOptions([...selectedOptions, index]);
+    }
+  };
+
+  const resetBallot = () => {
+    setSelectedOption(null);
+    setSelectedOptions([]);
+    setRanking(null);
+  };
+
+  const submitVote = async (faceDescriptor: Float32Array | null) => {
+    if (!poll || !ballot || !fingerprint) return;
+    setIsVoting(true);
+    setShowFaceAuth(false); // Hide if open
+
+    try {
+      const vote = await sendVote(
+        {
+          pollId: poll._id,
+          ...ballot,
+          voterFingerprint: fingerprint,
+          userAgent: navigator.userAgent,
+          accessToken,
+          token: turnstileToken || undefined,
+          embedding: faceDescriptor ? Array.from(faceDescriptor) : undefined,
+        },
+        poll.settings.requireIdentity ? await getAuthToken() : null,
+      );
+
+      saveReceipt(poll._id, vote.receipt);
+      toast.success("Vote submitted successfully!", {
+        description: `Receipt ID ${vote.receiptId.slice(0, 12)}… is in the audit log.`,
+      });
+      resetBallot();
+      onVoted(vote);
+    } catch (err) {
+      console.error(err);
+      setTurnstileToken(null);
+      setTurnstileKey((k) => k + 1);
+      if (err instanceof VoteError && err.retryAfter !== undefined) {
+        const minutes = Math.ceil(err.retryAfter / 60000);
+        toast.error(
+          `${err.message} Try again in ${minutes} ${minutes === 1 ? "minute" : "minutes"}.`,
+        );
+      } else {
+        toast.error(
+          err instanceof Error
+            ? err.message
+            : "Failed to submit vote. Please try again.",
+        );
+      }
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Polls with one vote per person go through Face ID first, unless they
+  // count one vote per signed-in account instead. The rest are limited by
+  // IP and fingerprint only.
+  const castVote = async () => {
+    if (!ballot) return;
+    if (!poll?.settings.allowMultipleVotes && !poll?.settings.requireIdentity) {
+      setShowFaceAuth(true);
+      return;
+    }
+    await submitVote(null);
+  };
+
+  return {
+    ballotType,
+    minSelections,
+    maxSelections,
+    selectedOption,
+    setSelectedOption,
+    selectedOptions,
+    setSelectedOptions,
+    toggleOption,
+    currentRanking,
+    setRanking,
+    ballot,
+    isVoting,
+    setIsVoting,
+    turnstileToken,
+    setTurnstileToken,
+    turnstileKey,
+    showFaceAuth,
+    setShowFaceAuth,
+    castVote,
+    submitVote,
+  };
+}
+
+export type PollVoting = ReturnType<typeof usePollVoting>;
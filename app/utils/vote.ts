@@ -0,0 +1,57 @@
+import { Id } from "../../convex/_generated/dataModel";
+import { VoteReceipt } from "../../convex/lib/receipts";
+
+// HTTP actions are served from the deployment's .site domain.
+export const CONVEX_SITE_URL =
+  process.env.NEXT_PUBLIC_CONVEX_SITE_URL ||
+  process.env.NEXT_PUBLIC_CONVEX_URL!.replace(/\.cloud$/, ".site");
+
+export interface VoteRequest {
+  pollId: Id<"polls">;
+  optionIndex: number;
+  selections?: number[];
+  voterFingerprint: string;
+  userAgent: string;
+  accessToken?: string;
+  token?: string;
+  embedding?: number[];
+}
+
+export class VoteError extends Error {
+  // Set when rate limited: milliseconds until voting is allowed again
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number) {
+    super(message);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Votes are posted to the /vote HTTP action rather than called as Convex
+// functions so the server can read our IP from the request headers.
+// `authToken` is the signed-in voter's ID token, for polls that require
+// sign-in. Resolves to the vote's receipt and its public receipt ID.
+export async function sendVote(
+  vote: VoteRequest,
+  authToken?: string | null,
+): Promise<VoteReceipt> {
+  const res = await fetch(`${CONVEX_SITE_URL}/vote`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(authToken && { Authorization: `Bearer ${authToken}` }),
+    },
+    body: JSON.stringify(vote),
+  });
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new VoteError(
+      data?.error || "Failed to submit vote. Please try again.",
+      data?.retryAfter,
+    );
+  }
+
+  const { receipt, receiptId } = await res.json();
+  return { receipt, receiptId };
+}
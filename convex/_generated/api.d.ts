@@ -8,7 +8,35 @@
  * @module
  */
 
+import type * as abuse from "../abuse.js";
+import type * as access from "../access.js";
+import type * as analytics from "../analytics.js";
+import type * as audit from "../audit.js";
+import type * as crons from "../crons.js";
+import type * as dashboard from "../dashboard.js";
+import type * as explore from "../explore.js";
+import type * as exports from "../exports.js";
+import type * as http from "../http.js";
+import type * as lib_access from "../lib/access.js";
+import type * as lib_admin from "../lib/admin.js";
+import type * as lib_analytics from "../lib/analytics.js";
+import type * as lib_anomalies from "../lib/anomalies.js";
+import type * as lib_audit from "../lib/audit.js";
+import type * as lib_ballots from "../lib/ballots.js";
+import type * as lib_crypto from "../lib/crypto.js";
+import type * as lib_export from "../lib/export.js";
+import type * as lib_faceMatch from "../lib/faceMatch.js";
+import type * as lib_faceTemplate from "../lib/faceTemplate.js";
+import type * as lib_ipHash from "../lib/ipHash.js";
+import type * as lib_polls from "../lib/polls.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_receipts from "../lib/receipts.js";
+import type * as lib_tallies from "../lib/tallies.js";
+import type * as lib_turnstile from "../lib/turnstile.js";
+import type * as lib_userAgent from "../lib/userAgent.js";
+import type * as lib_validation from "../lib/validation.js";
 import type * as polls from "../polls.js";
+import type * as tallies from "../tallies.js";
 import type * as votes from "../votes.js";
 
 import type {
@@ -18,7 +46,35 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  abuse: typeof abuse;
+  access: typeof access;
+  analytics: typeof analytics;
+  audit: typeof audit;
+  crons: typeof crons;
+  dashboard: typeof dashboard;
+  explore: typeof explore;
+  exports: typeof exports;
+  http: typeof http;
+  "lib/access": typeof lib_access;
+  "lib/admin": typeof lib_admin;
+  "lib/analytics": typeof lib_analytics;
+  "lib/anomalies": typeof lib_anomalies;
+  "lib/audit": typeof lib_audit;
+  "lib/ballots": typeof lib_ballots;
+  "lib/crypto": typeof lib_crypto;
+  "lib/export": typeof lib_export;
+  "lib/faceMatch": typeof lib_faceMatch;
+  "lib/faceTemplate": typeof lib_faceTemplate;
+  "lib/ipHash": typeof lib_ipHash;
+  "lib/polls": typeof lib_polls;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/receipts": typeof lib_receipts;
+  "lib/tallies": typeof lib_tallies;
+  "lib/turnstile": typeof lib_turnstile;
+  "lib/userAgent": typeof lib_userAgent;
+  "lib/validation": typeof lib_validation;
   polls: typeof polls;
+  tallies: typeof tallies;
   votes: typeof votes;
 }>;
 
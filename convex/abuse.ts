@@ -0,0 +1,264 @@
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  MutationCtx,
+} from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { suspiciousKind } from "./schema";
+import { requireAdmin } from "./lib/admin";
+import { tallyResults } from "./lib/polls";
+import { updateTally } from "./lib/tallies";
+import { updateBuckets } from "./lib/analytics";
+import { appendAuditEntry, toReceiptId } from "./lib/audit";
+import { signReceipt } from "./lib/receipts";
+import {
+  DEFAULT_FACE_MATCH_THRESHOLD,
+  FACE_MATCH_CANDIDATES,
+  FACE_NEAR_MATCH_MARGIN,
+} from "./lib/faceMatch";
+import { findIpBursts, findUserAgentBursts, Finding } from "./lib/anomalies";
+
+// Each run looks back a little further than the cron interval so bursts
+// straddling two runs are still seen whole.
+const ANALYSIS_WINDOW_MS = 20 * 60 * 1000;
+const MAX_SCANNED_VOTES = 2000;
+// Keeps a finding, and the review screen that loads its votes, a bounded
+// size. A cluster that outgrows it carries on in a new finding.
+const MAX_FINDING_VOTES = 500;
+
+export const recentVotes = internalQuery({
+  args: { since: v.number() },
+  handler: async (ctx, args) => {
+    const votes = await ctx.db
+      .query("votes")
+      .withIndex("by_timestamp", (q) => q.gte("timestamp", args.since))
+      // Newest first, so a busy window drops its oldest votes, which the
+      // previous run has already seen
+      .order("desc")
+      .take(MAX_SCANNED_VOTES);
+    return votes
+      .filter((vote) => !vote.voided)
+      .map((vote) => ({
+        _id: vote._id,
+        pollId: vote.pollId,
+        ipHash: vote.ipHash,
+        voterFingerprint: vote.voterFingerprint,
+        userAgent: vote.userAgent,
+        timestamp: vote.timestamp,
+        embedding: vote.embedding,
+      }));
+  },
+});
+
+// Scheduled from crons.ts. Looks back over recent votes for bursts from one
+// network, identical user agents across devices, and faces that come close
+// to the poll's match threshold without crossing it.
+export const analyze = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const votes = await ctx.runQuery(internal.abuse.recentVotes, {
+      since: Date.now() - ANALYSIS_WINDOW_MS,
+    });
+    const findings: Finding[] = [
+      ...findIpBursts(votes),
+      ...findUserAgentBursts(votes),
+    ];
+
+    const thresholds = new Map<Id<"polls">, number>();
+    for (const vote of votes) {
+      if (!vote.embedding) continue;
+      if (!thresholds.has(vote.pollId)) {
+        const poll = await ctx.runQuery(internal.polls.getInternal, {
+          pollId: vote.pollId,
+        });
+        thresholds.set(
+          vote.pollId,
+          poll?.settings.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD,
+        );
+      }
+      const threshold = thresholds.get(vote.pollId)!;
+
+      const matches = await ctx.vectorSearch("votes", "by_embedding", {
+        vector: vote.embedding,
+        limit: FACE_MATCH_CANDIDATES,
+        filter: (q) => q.eq("pollId", vote.pollId),
+      });
+      for (const match of matches) {
+        if (match._id === vote._id) continue;
+        if (match._score < threshold - FACE_NEAR_MATCH_MARGIN) continue;
+        const pair = [vote._id, match._id].sort();
+        findings.push({
+          pollId: vote.pollId,
+          kind: "nearDuplicateFace",
+          subject: pair.join(","),
+          voteIds: pair,
+          detail: `Two faces with similarity ${match._score.toFixed(3)} (votes are blocked above ${threshold})`,
+        });
+      }
+    }
+
+    if (findings.length > 0) {
+      await ctx.runMutation(internal.abuse.recordFindings, { findings });
+    }
+  },
+});
+
+// Merges findings into suspiciousActivity. A cluster that is still open
+// grows with new votes, up to MAX_FINDING_VOTES; votes already reviewed
+// aren't raised again.
+export const recordFindings = internalMutation({
+  args: {
+    findings: v.array(
+      v.object({
+        pollId: v.id("polls"),
+        kind: suspiciousKind,
+        subject: v.string(),
+        voteIds: v.array(v.id("votes")),
+        detail: v.string(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    for (const finding of args.findings) {
+      const existing = await ctx.db
+        .query("suspiciousActivity")
+        .withIndex("by_poll_and_subject", (q) =>
+          q
+            .eq("pollId", finding.pollId)
+            .eq("kind", finding.kind)
+            .eq("subject", finding.subject),
+        )
+        .collect();
+
+      const seen = new Set(existing.flatMap((e) => e.voteIds));
+      if (finding.voteIds.every((id) => seen.has(id))) continue;
+
+      const openIds = new Set(
+        existing.filter((e) => e.status === "open").flatMap((e) => e.voteIds),
+      );
+      let voteIds = finding.voteIds.filter((id) => !openIds.has(id));
+      const open = existing.find(
+        (e) => e.status === "open" && e.voteIds.length < MAX_FINDING_VOTES,
+      );
+      if (open) {
+        const room = MAX_FINDING_VOTES - open.voteIds.length;
+        await ctx.db.patch(open._id, {
+          voteIds: [...open.voteIds, ...voteIds.slice(0, room)],
+          detail: finding.detail,
+          detectedAt: Date.now(),
+        });
+        voteIds = voteIds.slice(room);
+      }
+      for (let i = 0; i < voteIds.length; i += MAX_FINDING_VOTES) {
+        await ctx.db.insert("suspiciousActivity", {
+          ...finding,
+          voteIds: voteIds.slice(i, i + MAX_FINDING_VOTES),
+          detectedAt: Date.now(),
+          status: "open",
+        });
+      }
+    }
+  },
+});
+
+// Open findings for the creator's review screen, with the votes behind them.
+export const list = query({
+  args: { pollId: v.id("polls"), adminToken: v.string() },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    const findings = await ctx.db
+      .query("suspiciousActivity")
+      .withIndex("by_poll_and_status", (q) =>
+        q.eq("pollId", args.pollId).eq("status", "open"),
+      )
+      .collect();
+
+    return await Promise.all(
+      findings.map(async (finding) => {
+        const votes = await Promise.all(
+          finding.voteIds.map((id) => ctx.db.get(id)),
+        );
+        return {
+          _id: finding._id,
+          kind: finding.kind,
+          detail: finding.detail,
+          detectedAt: finding.detectedAt,
+          votes: votes
+            .filter((vote) => vote !== null)
+            .map((vote) => ({
+              _id: vote._id,
+              timestamp: vote.timestamp,
+              options: (vote.selections ?? [vote.optionIndex]).map(
+                (index) => poll.options[index],
+              ),
+              voided: vote.voided ?? false,
+            })),
+        };
+      }),
+    );
+  },
+});
+
+// Stops a vote counting. It stays in the table (so the device and face are
+// still blocked from voting again) and the audit log records the void.
+async function voidVote(
+  ctx: MutationCtx,
+  poll: Doc<"polls">,
+  vote: Doc<"votes">,
+) {
+  await ctx.db.patch(vote._id, { voided: true });
+  await updateTally(ctx.db, poll, vote, -1);
+  await updateBuckets(ctx.db, poll, vote, -1);
+  await appendAuditEntry(ctx.db, poll._id, {
+    kind: "void",
+    receiptId: await toReceiptId(await signReceipt(vote._id)),
+  });
+}
+
+export const voidVotes = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    findingId: v.id("suspiciousActivity"),
+  },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    const finding = await ctx.db.get(args.findingId);
+    if (!finding || finding.pollId !== args.pollId) {
+      throw new ConvexError("Finding not found");
+    }
+
+    for (const voteId of finding.voteIds) {
+      const vote = await ctx.db.get(voteId);
+      if (vote && !vote.voided) await voidVote(ctx, poll, vote);
+    }
+    await ctx.db.patch(finding._id, { status: "voided" });
+
+    if (poll.closedAt !== undefined) {
+      await ctx.db.patch(args.pollId, {
+        finalResults: await tallyResults(ctx.db, poll),
+      });
+    }
+  },
+});
+
+export const dismiss = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    findingId: v.id("suspiciousActivity"),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.pollId, args.adminToken);
+    const finding = await ctx.db.get(args.findingId);
+    if (!finding || finding.pollId !== args.pollId) {
+      throw new ConvexError("Finding not found");
+    }
+    await ctx.db.patch(finding._id, { status: "dismissed" });
+  },
+});
@@ -0,0 +1,185 @@
+import { internalQuery, mutation, query } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { requireAdmin } from "./lib/admin";
+import {
+  getVisibility,
+  grantAccess,
+  hasAccess,
+  hashPasscode,
+  isRestricted,
+} from "./lib/access";
+import { consumeRateLimits } from "./lib/rateLimit";
+import { randomToken, sha256Hex } from "./lib/crypto";
+
+const MAX_INVITES_PER_BATCH = 50;
+
+// Passcode attempts are capped per device so they can't be guessed quickly,
+// and more loosely per poll so switching devices doesn't help much either
+// without one visitor locking everyone else out. Invite codes and admin
+// tokens are random 256-bit values.
+const UNLOCK_ATTEMPTS_PER_DEVICE = 5;
+const UNLOCK_ATTEMPTS_PER_POLL = 100;
+const UNLOCK_WINDOW_MS = 10 * 60 * 1000;
+
+// Enough for the poll page to choose between the poll and a gate, without
+// revealing anything about a restricted poll.
+export const status = query({
+  args: { pollId: v.id("polls"), accessToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll) return null;
+    return {
+      visibility: getVisibility(poll),
+      granted: await hasAccess(ctx, poll, args.accessToken),
+    };
+  },
+});
+
+// For actions, which can't read the database directly.
+export const check = internalQuery({
+  args: { pollId: v.id("polls"), accessToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    return !!poll && (await hasAccess(ctx, poll, args.accessToken));
+  },
+});
+
+// Trades a passcode, an invite code or the admin token for an access token.
+// Returns null for a wrong code rather than throwing, so the attempt still
+// counts against the limit.
+export const unlock = mutation({
+  args: { pollId: v.id("polls"), code: v.string(), fingerprint: v.string() },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll) throw new ConvexError("Poll not found");
+    if (!isRestricted(poll)) return null;
+
+    const code = args.code.trim();
+    const codeHash = await sha256Hex(code);
+    if (codeHash === poll.adminTokenHash) {
+      return await grantAccess(ctx.db, poll._id);
+    }
+
+    if (getVisibility(poll) === "passcode") {
+      await consumeRateLimits(ctx.db, [
+        {
+          key: `unlock:${poll._id}:${args.fingerprint}`,
+          limit: UNLOCK_ATTEMPTS_PER_DEVICE,
+          windowMs: UNLOCK_WINDOW_MS,
+          message: "Too many attempts. Please wait a few minutes.",
+        },
+        {
+          key: `unlock:${poll._id}`,
+          limit: UNLOCK_ATTEMPTS_PER_POLL,
+          windowMs: UNLOCK_WINDOW_MS,
+          message:
+            "This poll is receiving too many passcode attempts. Please try again later.",
+        },
+      ]);
+      const matches =
+        poll.passcodeHash !== undefined &&
+        poll.passcodeHash === (await hashPasscode(poll._id, code));
+      return matches ? await grantAccess(ctx.db, poll._id) : null;
+    }
+
+    const invite = await ctx.db
+      .query("pollInvites")
+      .withIndex("by_code_hash", (q) => q.eq("codeHash", codeHash))
+      .unique();
+    if (
+      !invite ||
+      invite.pollId !== poll._id ||
+      invite.redeemedAt !== undefined ||
+      invite.revokedAt !== undefined
+    ) {
+      return null;
+    }
+    await ctx.db.patch(invite._id, { redeemedAt: Date.now() });
+    return await grantAccess(ctx.db, poll._id, invite._id);
+  },
+});
+
+// The codes are returned once, only their hashes are stored.
+export const createInvites = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    count: v.number(),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    if (getVisibility(poll) !== "invite") {
+      throw new ConvexError("This poll isn't invite-only");
+    }
+    if (
+      !Number.isInteger(args.count) ||
+      args.count < 1 ||
+      args.count > MAX_INVITES_PER_BATCH
+    ) {
+      throw new ConvexError(
+        `Create between 1 and ${MAX_INVITES_PER_BATCH} invites at a time`,
+      );
+    }
+
+    const label = args.label?.trim() || undefined;
+    const codes: string[] = [];
+    for (let i = 0; i < args.count; i++) {
+      const code = randomToken();
+      await ctx.db.insert("pollInvites", {
+        pollId: poll._id,
+        codeHash: await sha256Hex(code),
+        label,
+        createdAt: Date.now(),
+      });
+      codes.push(code);
+    }
+    return codes;
+  },
+});
+
+export const listInvites = query({
+  args: { pollId: v.id("polls"), adminToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.pollId, args.adminToken);
+    const invites = await ctx.db
+      .query("pollInvites")
+      .withIndex("by_poll", (q) => q.eq("pollId", args.pollId))
+      .order("desc")
+      .collect();
+    return invites.map((invite) => ({
+      _id: invite._id,
+      label: invite.label,
+      createdAt: invite.createdAt,
+      redeemedAt: invite.redeemedAt,
+      revokedAt: invite.revokedAt,
+    }));
+  },
+});
+
+// Also revokes the access handed out for the invite, if it was redeemed.
+// Votes already cast with it stay counted.
+export const revokeInvite = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    inviteId: v.id("pollInvites"),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.pollId, args.adminToken);
+    const invite = await ctx.db.get(args.inviteId);
+    if (!invite || invite.pollId !== args.pollId) {
+      throw new ConvexError("Invite not found");
+    }
+    if (invite.revokedAt !== undefined) return;
+
+    await ctx.db.patch(invite._id, { revokedAt: Date.now() });
+    const grants = await ctx.db
+      .query("pollAccessGrants")
+      .withIndex("by_invite", (q) => q.eq("inviteId", invite._id))
+      .collect();
+    for (const grant of grants) {
+      await ctx.db.delete(grant._id);
+    }
+  },
+});
@@ -0,0 +1,135 @@
+import { internalMutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { computeBuckets, HOUR_MS } from "./lib/analytics";
+import { hasAccess } from "./lib/access";
+
+const DAY_MS = 24 * HOUR_MS;
+
+type Breakdown = { name: string; count: number }[];
+
+function addTo(breakdown: Map<string, number>, name: string, count: number) {
+  breakdown.set(name, (breakdown.get(name) ?? 0) + count);
+}
+
+function sorted(breakdown: Map<string, number>): Breakdown {
+  return [...breakdown]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Everything the analytics tab shows, from the poll's hourly buckets.
+// Timelines longer than a week are regrouped by day so the charts stay
+// readable; empty periods in between are filled with zeros.
+export const get = query({
+  args: { pollId: v.id("polls"), accessToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll || !(await hasAccess(ctx, poll, args.accessToken))) {
+      return null;
+    }
+
+    const buckets = await ctx.db
+      .query("voteBuckets")
+      .withIndex("by_poll_and_hour", (q) => q.eq("pollId", args.pollId))
+      .collect();
+
+    const browsers = new Map<string, number>();
+    const operatingSystems = new Map<string, number>();
+    const devices = new Map<string, number>();
+    let totalVotes = 0;
+    let faceVerified = 0;
+    for (const bucket of buckets) {
+      totalVotes += bucket.total;
+      faceVerified += bucket.faceVerified;
+      for (const agent of bucket.agents) {
+        addTo(browsers, agent.browser, agent.count);
+        addTo(operatingSystems, agent.os, agent.count);
+        addTo(devices, agent.device, agent.count);
+      }
+    }
+
+    const first = buckets[0]?.hour;
+    const last = buckets[buckets.length - 1]?.hour;
+    const periodMs =
+      first !== undefined && last - first > 7 * DAY_MS ? DAY_MS : HOUR_MS;
+
+    // Per-period votes, then running totals per option
+    const periods = new Map<number, { total: number; counts: number[] }>();
+    for (const bucket of buckets) {
+      const start = Math.floor(bucket.hour / periodMs) * periodMs;
+      const period = periods.get(start) ?? {
+        total: 0,
+        counts: new Array<number>(poll.options.length).fill(0),
+      };
+      period.total += bucket.total;
+      bucket.optionCounts.forEach((count, i) => (period.counts[i] += count));
+      periods.set(start, period);
+    }
+
+    const timeline: { start: number; votes: number; cumulative: number[] }[] =
+      [];
+    if (first !== undefined) {
+      const running = new Array<number>(poll.options.length).fill(0);
+      const end = Math.floor(last / periodMs) * periodMs;
+      for (
+        let start = Math.floor(first / periodMs) * periodMs;
+        start <= end;
+        start += periodMs
+      ) {
+        const period = periods.get(start);
+        period?.counts.forEach((count, i) => (running[i] += count));
+        timeline.push({
+          start,
+          votes: period?.total ?? 0,
+          cumulative: [...running],
+        });
+      }
+    }
+
+    return {
+      options: poll.options,
+      periodMs,
+      timeline,
+      totalVotes,
+      faceVerified,
+      browsers: sorted(browsers),
+      operatingSystems: sorted(operatingSystems),
+      devices: sorted(devices),
+    };
+  },
+});
+
+// One-off migration creating buckets for polls with votes from before they
+// existed, a page of polls at a time:
+//   npx convex run analytics:backfill
+export const backfill = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("polls")
+      .paginate({ numItems: 20, cursor: args.cursor ?? null });
+
+    for (const poll of page.page) {
+      const existing = await ctx.db
+        .query("voteBuckets")
+        .withIndex("by_poll_and_hour", (q) => q.eq("pollId", poll._id))
+        .first();
+      if (existing) continue;
+
+      const votes = await ctx.db
+        .query("votes")
+        .withIndex("by_poll", (q) => q.eq("pollId", poll._id))
+        .collect();
+      for (const bucket of computeBuckets(poll, votes)) {
+        await ctx.db.insert("voteBuckets", bucket);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.analytics.backfill, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -0,0 +1,40 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { hasAccess } from "./lib/access";
+
+// The public audit log of a poll, oldest first. The audit page pages through
+// all of it to verify the chain. Restricted polls' logs are only shown to
+// voters with access.
+export const entries = query({
+  args: {
+    pollId: v.id("polls"),
+    accessToken: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll || !(await hasAccess(ctx, poll, args.accessToken))) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const page = await ctx.db
+      .query("auditLog")
+      .withIndex("by_poll_and_seq", (q) => q.eq("pollId", args.pollId))
+      .paginate(args.paginationOpts);
+
+    return {
+      ...page,
+      page: page.page.map((entry) => ({
+        seq: entry.seq,
+        kind: entry.kind,
+        receiptId: entry.receiptId,
+        optionIndex: entry.optionIndex,
+        selections: entry.selections,
+        timestamp: entry.timestamp,
+        prevHash: entry.prevHash,
+        hash: entry.hash,
+      })),
+    };
+  },
+});
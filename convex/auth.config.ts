@@ -0,0 +1,11 @@
+// Identities for polls that require sign-in. The Next app issues them under
+// /api/auth once someone has signed in with the identity provider, so set
+// AUTH_ISSUER_URL to e.g. http://localhost:3000/api/auth on the deployment.
+// Without it nobody can sign in and everything else works as before.
+const issuer = process.env.AUTH_ISSUER_URL;
+
+const authConfig = {
+  providers: issuer ? [{ domain: issuer, applicationID: "convex" }] : [],
+};
+
+export default authConfig;
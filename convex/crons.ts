@@ -0,0 +1,24 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.interval(
+  "purge consumed turnstile tokens",
+  { minutes: 30 },
+  internal.votes.purgeConsumedTokens,
+);
+
+crons.interval(
+  "purge refilled rate limit buckets",
+  { hours: 1 },
+  internal.votes.purgeRateLimits,
+);
+
+crons.interval(
+  "flag suspicious voting patterns",
+  { minutes: 15 },
+  internal.abuse.analyze,
+);
+
+export default crons;
@@ -0,0 +1,61 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { summarizePoll } from "./lib/polls";
+import { sha256Hex } from "./lib/crypto";
+
+// More than any one browser should realistically hold
+const MAX_BROWSER_POLLS = 100;
+
+// The signed-in account's polls, newest first. Empty when signed out.
+export const myPolls = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return { page: [], isDone: true, continueCursor: "" };
+
+    const page = await ctx.db
+      .query("polls")
+      .withIndex("by_creator_subject", (q) =>
+        q.eq("creatorSubject", identity.subject),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...page,
+      page: await Promise.all(
+        page.page.map((poll) => summarizePoll(ctx.db, poll)),
+      ),
+    };
+  },
+});
+
+// Polls this browser holds admin tokens for, newest first. The token is the
+// proof: a fingerprint alone would let anyone who learned it list the
+// creator's private polls.
+export const browserPolls = query({
+  args: {
+    adminTokens: v.array(
+      v.object({ pollId: v.string(), adminToken: v.string() }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const polls = await Promise.all(
+      args.adminTokens
+        .slice(0, MAX_BROWSER_POLLS)
+        .map(async ({ pollId, adminToken }) => {
+          // Whatever is in localStorage, including polls since deleted
+          const id = ctx.db.normalizeId("polls", pollId);
+          const poll = id ? await ctx.db.get(id) : null;
+          if (!poll || poll.adminTokenHash !== (await sha256Hex(adminToken))) {
+            return null;
+          }
+          return await summarizePoll(ctx.db, poll);
+        }),
+    );
+    return polls
+      .filter((poll) => poll !== null)
+      .sort((a, b) => b._creationTime - a._creationTime);
+  },
+});
@@ -0,0 +1,80 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Id } from "./_generated/dataModel";
+import { summarizePoll } from "./lib/polls";
+
+// Trending is vote velocity: votes in the last hour, read newest first from
+// the by_timestamp index up to a cap so a busy hour stays cheap.
+const TRENDING_WINDOW_MS = 60 * 60 * 1000;
+const TRENDING_SCAN_LIMIT = 5000;
+const TRENDING_SIZE = 20;
+
+// Listed polls for the explore page, newest first or closing soonest. A
+// search term switches to the full-text index over question and options,
+// ranked by relevance.
+export const list = query({
+  args: {
+    sort: v.union(v.literal("recent"), v.literal("closingSoon")),
+    search: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const search = args.search?.trim();
+    const polls = ctx.db.query("polls");
+    const page = search
+      ? await polls
+          .withSearchIndex("search_text", (q) =>
+            q.search("searchText", search).eq("listed", true),
+          )
+          .paginate(args.paginationOpts)
+      : args.sort === "closingSoon"
+        ? await polls
+            .withIndex("by_listed_and_close_at", (q) =>
+              q.eq("listed", true).gt("settings.closeAt", Date.now()),
+            )
+            // Closed early by the creator
+            .filter((q) => q.eq(q.field("closedAt"), undefined))
+            .paginate(args.paginationOpts)
+        : await polls
+            .withIndex("by_listed", (q) => q.eq("listed", true))
+            .order("desc")
+            .paginate(args.paginationOpts);
+
+    return {
+      ...page,
+      page: await Promise.all(
+        page.page.map((poll) => summarizePoll(ctx.db, poll)),
+      ),
+    };
+  },
+});
+
+export const trending = query({
+  args: {},
+  handler: async (ctx) => {
+    const recentVotes = await ctx.db
+      .query("votes")
+      .withIndex("by_timestamp", (q) =>
+        q.gt("timestamp", Date.now() - TRENDING_WINDOW_MS),
+      )
+      .order("desc")
+      .take(TRENDING_SCAN_LIMIT);
+
+    const velocity = new Map<Id<"polls">, number>();
+    for (const vote of recentVotes) {
+      if (vote.voided) continue;
+      velocity.set(vote.pollId, (velocity.get(vote.pollId) ?? 0) + 1);
+    }
+
+    const trending = [];
+    const fastest = [...velocity].sort((a, b) => b[1] - a[1]);
+    for (const [pollId, votesLastHour] of fastest) {
+      const poll = await ctx.db.get(pollId);
+      if (!poll?.listed) continue;
+      trending.push({ ...(await summarizePoll(ctx.db, poll)), votesLastHour });
+      if (trending.length === TRENDING_SIZE) break;
+    }
+    return trending;
+  },
+});
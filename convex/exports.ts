@@ -0,0 +1,57 @@
+import { internalQuery } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { requireAdmin } from "./lib/admin";
+import { tallyResults } from "./lib/polls";
+import { getBallotType } from "./lib/ballots";
+import { sha256Hex } from "./lib/crypto";
+import { isFaceVerified } from "./lib/analytics";
+import { isRestricted } from "./lib/access";
+
+// Everything the /export endpoint serves. Public polls can be exported by
+// anyone, others need the admin token. Votes are reduced to when, what and
+// a per-poll voter hash: IP hashes, user agents and face templates stay out.
+export const pollExport = internalQuery({
+  args: { pollId: v.string(), adminToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const pollId = ctx.db.normalizeId("polls", args.pollId);
+    const poll = pollId && (await ctx.db.get(pollId));
+    if (!poll) throw new ConvexError("Poll not found");
+
+    // Public exports would leak passcode and invite-only polls
+    if (!poll.settings.publicExport || isRestricted(poll)) {
+      if (!args.adminToken) {
+        throw new ConvexError("Exports of this poll are private");
+      }
+      await requireAdmin(ctx, poll._id, args.adminToken);
+    }
+
+    const votes = await ctx.db
+      .query("votes")
+      .withIndex("by_poll", (q) => q.eq("pollId", poll._id))
+      .collect();
+
+    const timeline = await Promise.all(
+      votes
+        .filter((vote) => !vote.voided)
+        .map(async (vote) => ({
+          timestamp: vote.timestamp,
+          options: (vote.selections ?? [vote.optionIndex]).map(
+            (index) => poll.options[index],
+          ),
+          // Salted with the poll so the same device can't be followed across
+          // polls
+          voterId: (
+            await sha256Hex(`${poll._id}:${vote.voterFingerprint}`)
+          ).slice(0, 16),
+          faceVerified: isFaceVerified(vote),
+        })),
+    );
+
+    return {
+      question: poll.question,
+      ballotType: getBallotType(poll),
+      ...(await tallyResults(ctx.db, poll)),
+      timeline,
+    };
+  },
+});
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ActionCtx } from "./_generated/server";
+import { handleVote } from "./http";
+
+process.env.IP_HASH_SECRET = "test-secret";
+
+const body = {
+  pollId: "poll123",
+  optionIndex: 0,
+  voterFingerprint: "fingerprint",
+  userAgent: "test",
+};
+
+// Stands in for the HTTP action context. `pollIds` are the ids the fake
+// database recognises; every action call is recorded.
+function fakeCtx(pollIds: string[]) {
+  const actions: Record<string, unknown>[] = [];
+  const ctx = {
+    runQuery: async (_ref: unknown, args: { pollId: string }) =>
+      pollIds.includes(args.pollId) ? args.pollId : null,
+    runAction: async (_ref: unknown, args: Record<string, unknown>) => {
+      actions.push(args);
+      return { receipt: "receipt", receiptId: "receiptId" };
+    },
+    auth: { getUserIdentity: async () => null },
+  } as unknown as ActionCtx;
+  return { ctx, actions };
+}
+
+const post = (payload: unknown) =>
+  new Request("https://example.convex.site/vote", {
+    method: "POST",
+    headers: { "x-forwarded-for": "1.2.3.4" },
+    body: JSON.stringify(payload),
+  });
+
+test("rejects a malformed body with 400", async () => {
+  const { ctx, actions } = fakeCtx([body.pollId]);
+  const res = await handleVote(ctx, post({ ...body, optionIndex: "0" }));
+  assert.equal(res.status, 400);
+  assert.equal(actions.length, 0);
+});
+
+test("rejects a poll id that isn't one with 400", async () => {
+  const { ctx, actions } = fakeCtx([body.pollId]);
+  const res = await handleVote(ctx, post({ ...body, pollId: "not-an-id" }));
+  assert.equal(res.status, 400);
+  assert.deepEqual(await res.json(), { error: "Invalid request body" });
+  assert.equal(actions.length, 0);
+});
+
+test("passes a valid vote on to the vote action", async () => {
+  const { ctx, actions } = fakeCtx([body.pollId]);
+  const res = await handleVote(ctx, post(body));
+  assert.equal(res.status, 200);
+  assert.equal(actions.length, 1);
+  assert.equal(actions[0].pollId, body.pollId);
+  assert.equal(actions[0].remoteIp, "1.2.3.4");
+});
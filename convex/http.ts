@@ -0,0 +1,211 @@
+import { httpRouter } from "convex/server";
+import { ConvexError } from "convex/values";
+import { ActionCtx, httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getClientIp, hashIp } from "./lib/ipHash";
+import { RateLimitError } from "./lib/rateLimit";
+import { VoteReceipt } from "./lib/receipts";
+import { toCsv } from "./lib/export";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": process.env.CLIENT_ORIGIN || "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  Vary: "Origin",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+type VoteRequest = {
+  pollId: string;
+  optionIndex: number;
+  selections?: number[];
+  voterFingerprint: string;
+  userAgent: string;
+  accessToken?: string;
+  token?: string;
+  embedding?: number[];
+};
+
+const isString = (value: unknown): value is string =>
+  typeof value === "string";
+const isOptionalString = (value: unknown) =>
+  value === undefined || isString(value);
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((item) => typeof item === "number" && Number.isFinite(item));
+
+// The body is client input, so check its shape before any of it reaches the
+// vote actions, whose argument validators would otherwise fail with a 500.
+// The poll id is checked against the database separately.
+function isVoteRequest(body: unknown): body is VoteRequest {
+  if (typeof body !== "object" || body === null) return false;
+  const vote = body as Record<string, unknown>;
+  return (
+    isString(vote.pollId) &&
+    vote.pollId.length > 0 &&
+    Number.isInteger(vote.optionIndex) &&
+    (vote.selections === undefined || isNumberArray(vote.selections)) &&
+    isString(vote.voterFingerprint) &&
+    isString(vote.userAgent) &&
+    isOptionalString(vote.accessToken) &&
+    isOptionalString(vote.token) &&
+    (vote.embedding === undefined || isNumberArray(vote.embedding))
+  );
+}
+
+// Every vote goes through here so the IP used for rate limiting is read from
+// the request headers and hashed server-side instead of trusted from the body.
+export async function handleVote(ctx: ActionCtx, request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid request body" }, 400);
+  }
+  if (!isVoteRequest(body)) {
+    return json({ error: "Invalid request body" }, 400);
+  }
+  const pollId = await ctx.runQuery(internal.polls.normalizeId, {
+    pollId: body.pollId,
+  });
+  if (!pollId) {
+    return json({ error: "Invalid request body" }, 400);
+  }
+
+  const remoteIp = getClientIp(request);
+  const ipHash = await hashIp(pollId, remoteIp);
+  // Signed-in voters send their identity token as `Authorization: Bearer`
+  const identity = await ctx.auth.getUserIdentity();
+
+  let receipt: VoteReceipt;
+  try {
+    if (body.embedding) {
+      receipt = await ctx.runAction(internal.votes.castWithFace, {
+        pollId,
+        optionIndex: body.optionIndex,
+        selections: body.selections,
+        voterFingerprint: body.voterFingerprint,
+        ipHash,
+        remoteIp,
+        userAgent: body.userAgent,
+        accessToken: body.accessToken,
+        voterSubject: identity?.subject,
+        token: body.token,
+        embedding: body.embedding,
+      });
+    } else {
+      receipt = await ctx.runAction(internal.votes.cast, {
+        pollId,
+        optionIndex: body.optionIndex,
+        selections: body.selections,
+        voterFingerprint: body.voterFingerprint,
+        ipHash,
+        remoteIp,
+        userAgent: body.userAgent,
+        accessToken: body.accessToken,
+        voterSubject: identity?.subject,
+        token: body.token,
+      });
+    }
+  } catch (err) {
+    if (err instanceof ConvexError) {
+      if (typeof err.data === "string") {
+        return json({ error: err.data }, 400);
+      }
+      if (err.data?.code === "RATE_LIMITED") {
+        const { message, retryAfter } = err.data as RateLimitError;
+        return json({ error: message, retryAfter }, 429);
+      }
+      return json({ error: err.data?.message ?? "Invalid vote" }, 400);
+    }
+    throw err;
+  }
+
+  return json({ success: true, ...receipt });
+}
+
+const vote = httpAction(handleVote);
+
+// GET /export?pollId=...&format=json|csv&table=results|timeline
+// JSON carries everything, CSV one table at a time (results by default).
+// Private polls need `Authorization: Bearer <admin token>`.
+const exportPoll = httpAction(async (ctx, request) => {
+  const params = new URL(request.url).searchParams;
+  const pollId = params.get("pollId");
+  const format = params.get("format") ?? "json";
+  const table = params.get("table") ?? "results";
+  if (!pollId) return json({ error: "Missing pollId" }, 400);
+  if (format !== "json" && format !== "csv") {
+    return json({ error: "format must be json or csv" }, 400);
+  }
+  if (table !== "results" && table !== "timeline") {
+    return json({ error: "table must be results or timeline" }, 400);
+  }
+
+  const authorization = request.headers.get("Authorization");
+  let data;
+  try {
+    data = await ctx.runQuery(internal.exports.pollExport, {
+      pollId,
+      adminToken: authorization?.replace(/^Bearer /, "") || undefined,
+    });
+  } catch (err) {
+    if (err instanceof ConvexError) {
+      const status = err.data === "Poll not found" ? 404 : 403;
+      return json({ error: err.data }, status);
+    }
+    throw err;
+  }
+
+  if (format === "json") {
+    return json(data);
+  }
+
+  const csv =
+    table === "results"
+      ? toCsv(
+          ["option", "votes", "percentage"],
+          data.options.map((option) => [
+            option.text,
+            option.votes,
+            option.percentage.toFixed(2),
+          ]),
+        )
+      : toCsv(
+          ["timestamp", "option", "voterId", "faceVerified"],
+          data.timeline.map((vote) => [
+            new Date(vote.timestamp).toISOString(),
+            // Ranked ballots keep their order, others are a set
+            vote.options.join(data.ballotType === "ranked" ? " > " : "; "),
+            vote.voterId,
+            vote.faceVerified,
+          ]),
+        );
+  return new Response(csv, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="poll-${pollId}-${table}.csv"`,
+    },
+  });
+});
+
+const preflight = httpAction(
+  async () => new Response(null, { headers: corsHeaders }),
+);
+
+const http = httpRouter();
+
+http.route({ path: "/vote", method: "POST", handler: vote });
+http.route({ path: "/vote", method: "OPTIONS", handler: preflight });
+http.route({ path: "/export", method: "GET", handler: exportPoll });
+http.route({ path: "/export", method: "OPTIONS", handler: preflight });
+
+// Convex expects the router to be the default export of `convex/http.js`.
+export default http;
@@ -0,0 +1,75 @@
+import { ConvexError } from "convex/values";
+import { DatabaseWriter, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { randomToken, sha256Hex } from "./crypto";
+import { isOwner } from "./admin";
+
+// Public and unlisted polls are open to anyone with the link (unlisted ones
+// just aren't advertised). Passcode and invite-only polls need an access
+// token, handed out by access.unlock for the passcode, an unused invite
+// code or the admin token. Only hashes of passcodes, codes and tokens are
+// stored.
+
+export type Visibility = NonNullable<Doc<"polls">["settings"]["visibility"]>;
+
+export function getVisibility(poll: Pick<Doc<"polls">, "settings">) {
+  return poll.settings.visibility ?? "public";
+}
+
+export function isRestricted(poll: Pick<Doc<"polls">, "settings">) {
+  const visibility = getVisibility(poll);
+  return visibility === "passcode" || visibility === "invite";
+}
+
+// Salted with the poll so equal passcodes on two polls hash differently
+export function hashPasscode(pollId: Id<"polls">, passcode: string) {
+  return sha256Hex(`passcode:${pollId}:${passcode}`);
+}
+
+// The admin token works as an access token too, and a signed-in creator
+// needs none, so the creator's pages don't need a separate grant.
+export async function hasAccess(
+  ctx: QueryCtx,
+  poll: Doc<"polls">,
+  accessToken: string | undefined,
+) {
+  if (!isRestricted(poll)) return true;
+  if (await isOwner(ctx, poll)) return true;
+  if (!accessToken) return false;
+
+  const tokenHash = await sha256Hex(accessToken);
+  if (tokenHash === poll.adminTokenHash) return true;
+
+  const grant = await ctx.db
+    .query("pollAccessGrants")
+    .withIndex("by_poll_and_token", (q) =>
+      q.eq("pollId", poll._id).eq("tokenHash", tokenHash),
+    )
+    .unique();
+  return grant !== null;
+}
+
+export async function requireAccess(
+  ctx: QueryCtx,
+  poll: Doc<"polls">,
+  accessToken: string | undefined,
+) {
+  if (!(await hasAccess(ctx, poll, accessToken))) {
+    throw new ConvexError("This poll is private");
+  }
+}
+
+export async function grantAccess(
+  db: DatabaseWriter,
+  pollId: Id<"polls">,
+  inviteId?: Id<"pollInvites">,
+) {
+  const accessToken = randomToken();
+  await db.insert("pollAccessGrants", {
+    pollId,
+    tokenHash: await sha256Hex(accessToken),
+    inviteId,
+    grantedAt: Date.now(),
+  });
+  return accessToken;
+}
@@ -0,0 +1,37 @@
+import { ConvexError } from "convex/values";
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { sha256Hex } from "./crypto";
+
+// Whether the signed-in user created the poll. Polls created while signed
+// out have no owner.
+export async function isOwner(
+  ctx: QueryCtx,
+  poll: Pick<Doc<"polls">, "creatorSubject">,
+) {
+  if (!poll.creatorSubject) return false;
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.subject === poll.creatorSubject;
+}
+
+// Admin actions are authorised by the secret token handed out when the poll
+// was created, or by signing in as its creator. Only the token's hash is
+// stored on the poll.
+export async function requireAdmin(
+  ctx: QueryCtx,
+  pollId: Id<"polls">,
+  adminToken: string,
+) {
+  const poll = await ctx.db.get(pollId);
+  if (!poll) throw new ConvexError("Poll not found");
+  if (await isOwner(ctx, poll)) return poll;
+
+  if (
+    !poll.adminTokenHash ||
+    poll.adminTokenHash !== (await sha256Hex(adminToken))
+  ) {
+    throw new ConvexError("Invalid admin token");
+  }
+
+  return poll;
+}
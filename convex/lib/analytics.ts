@@ -0,0 +1,148 @@
+import { DatabaseWriter } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { countedOptions } from "./tallies";
+import { parseUserAgent } from "./userAgent";
+
+// Votes are counted into one voteBuckets document per poll and hour, updated
+// in the same transaction as the vote like the tallies, so the analytics
+// queries read a handful of buckets instead of every vote.
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+type BucketPoll = Pick<Doc<"polls">, "_id" | "options" | "settings">;
+type BucketVote = Pick<
+  Doc<"votes">,
+  | "optionIndex"
+  | "selections"
+  | "timestamp"
+  | "userAgent"
+  | "faceVerified"
+  | "embedding"
+> &
+  Partial<Pick<Doc<"votes">, "voided">>;
+type BucketCounts = Pick<
+  Doc<"voteBuckets">,
+  "total" | "optionCounts" | "faceVerified" | "agents"
+>;
+
+// Votes from before faceVerified was stored still have their template,
+// unless it was purged.
+export function isFaceVerified(
+  vote: Pick<Doc<"votes">, "faceVerified" | "embedding">,
+) {
+  return vote.faceVerified ?? vote.embedding !== undefined;
+}
+
+function emptyBucket(poll: BucketPoll): BucketCounts {
+  return {
+    total: 0,
+    optionCounts: new Array<number>(poll.options.length).fill(0),
+    faceVerified: 0,
+    agents: [],
+  };
+}
+
+export function applyToBucket(
+  poll: BucketPoll,
+  bucket: BucketCounts,
+  vote: BucketVote,
+  delta: 1 | -1,
+): BucketCounts {
+  const optionCounts = [...bucket.optionCounts];
+  for (const index of countedOptions(poll, vote)) {
+    optionCounts[index] += delta;
+  }
+
+  const agent = parseUserAgent(vote.userAgent);
+  const agents = [...bucket.agents];
+  const existing = agents.findIndex(
+    (a) =>
+      a.browser === agent.browser &&
+      a.os === agent.os &&
+      a.device === agent.device,
+  );
+  if (existing === -1) {
+    agents.push({ ...agent, count: delta });
+  } else {
+    agents[existing] = {
+      ...agents[existing],
+      count: agents[existing].count + delta,
+    };
+  }
+
+  return {
+    total: bucket.total + delta,
+    optionCounts,
+    faceVerified: bucket.faceVerified + (isFaceVerified(vote) ? delta : 0),
+    agents: agents.filter((a) => a.count > 0),
+  };
+}
+
+// Buckets for a set of votes, for backfills.
+export function computeBuckets(poll: BucketPoll, votes: BucketVote[]) {
+  const buckets = new Map<number, BucketCounts>();
+  for (const vote of votes) {
+    if (vote.voided) continue;
+    const hour = Math.floor(vote.timestamp / HOUR_MS) * HOUR_MS;
+    const bucket = buckets.get(hour) ?? emptyBucket(poll);
+    buckets.set(hour, applyToBucket(poll, bucket, vote, 1));
+  }
+  return [...buckets].map(([hour, counts]) => ({
+    pollId: poll._id,
+    hour,
+    ...counts,
+  }));
+}
+
+async function getBucket(
+  db: DatabaseWriter,
+  pollId: Id<"polls">,
+  timestamp: number,
+) {
+  const hour = Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+  const bucket = await db
+    .query("voteBuckets")
+    .withIndex("by_poll_and_hour", (q) =>
+      q.eq("pollId", pollId).eq("hour", hour),
+    )
+    .unique();
+  return { hour, bucket };
+}
+
+// Adds (delta 1) or removes (delta -1) a vote, alongside updateTally.
+export async function updateBuckets(
+  db: DatabaseWriter,
+  poll: BucketPoll,
+  vote: BucketVote,
+  delta: 1 | -1,
+) {
+  const { hour, bucket } = await getBucket(db, poll._id, vote.timestamp);
+  if (bucket) {
+    await db.patch(bucket._id, applyToBucket(poll, bucket, vote, delta));
+  } else if (delta === 1) {
+    await db.insert("voteBuckets", {
+      pollId: poll._id,
+      hour,
+      ...applyToBucket(poll, emptyBucket(poll), vote, 1),
+    });
+  }
+  // Removing a vote whose hour has no bucket: it predates the buckets and
+  // was never counted in them
+}
+
+// Alongside moveVote, when a voter changes their ballot. The vote stays in
+// the hour it was first cast.
+export async function moveBucketVote(
+  db: DatabaseWriter,
+  poll: BucketPoll,
+  from: BucketVote,
+  to: Pick<Doc<"votes">, "optionIndex" | "selections">,
+) {
+  const { bucket } = await getBucket(db, poll._id, from.timestamp);
+  if (!bucket) return;
+
+  const optionCounts = [...bucket.optionCounts];
+  for (const index of countedOptions(poll, from)) optionCounts[index] -= 1;
+  for (const index of countedOptions(poll, to)) optionCounts[index] += 1;
+  await db.patch(bucket._id, { optionCounts });
+}
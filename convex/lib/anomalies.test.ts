@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Id } from "../_generated/dataModel";
+import {
+  findIpBursts,
+  findUserAgentBursts,
+  IP_BURST_VOTES,
+  ScannedVote,
+} from "./anomalies";
+
+const scanned = (
+  id: number,
+  timestamp: number,
+  fields: Partial<ScannedVote> = {},
+): ScannedVote => ({
+  _id: `vote${id}` as Id<"votes">,
+  pollId: "poll123" as Id<"polls">,
+  ipHash: "ip",
+  voterFingerprint: `device${id}`,
+  userAgent: "agent",
+  timestamp,
+  ...fields,
+});
+
+test("flags a burst of votes from one network", () => {
+  const votes = Array.from({ length: IP_BURST_VOTES }, (_, i) =>
+    scanned(i, i * 1000),
+  );
+  const [finding] = findIpBursts([
+    ...votes,
+    scanned(99, 0, { ipHash: "other" }),
+  ]);
+  assert.equal(finding.subject, "ip");
+  assert.deepEqual(finding.voteIds, votes.map((vote) => vote._id));
+});
+
+test("leaves votes from one network spread over time alone", () => {
+  const votes = Array.from({ length: IP_BURST_VOTES }, (_, i) =>
+    scanned(i, i * 60_000),
+  );
+  assert.deepEqual(findIpBursts(votes), []);
+});
+
+test("flags several devices with one user agent voting together", () => {
+  const votes = [scanned(1, 0), scanned(2, 2000), scanned(3, 4000)];
+  assert.equal(findUserAgentBursts(votes).length, 1);
+  // The same device voting three times is one device
+  const repeats = votes.map((vote) => ({
+    ...vote,
+    voterFingerprint: "device",
+  }));
+  assert.deepEqual(findUserAgentBursts(repeats), []);
+});
@@ -0,0 +1,104 @@
+import { Doc, Id } from "../_generated/dataModel";
+
+// Heuristics behind abuse.analyze. Each looks for votes on one poll that
+// share something (a network, a browser build) and arrived faster than
+// people plausibly do.
+
+// Votes from one IP hash within a minute
+export const IP_BURST_VOTES = 5;
+export const IP_BURST_WINDOW_MS = 60 * 1000;
+// Different devices reporting the same user agent within seconds
+export const USER_AGENT_BURST_DEVICES = 3;
+export const USER_AGENT_BURST_WINDOW_MS = 10 * 1000;
+
+export type SuspiciousKind = Doc<"suspiciousActivity">["kind"];
+
+export type Finding = {
+  pollId: Id<"polls">;
+  kind: SuspiciousKind;
+  subject: string;
+  voteIds: Id<"votes">[];
+  detail: string;
+};
+
+export type ScannedVote = Pick<
+  Doc<"votes">,
+  "_id" | "pollId" | "ipHash" | "voterFingerprint" | "userAgent" | "timestamp"
+>;
+
+function groupBy<T>(items: T[], key: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
+}
+
+// Every vote that falls in some window of windowMs for which isBurst holds,
+// sliding the window start across the (timestamp-sorted) votes.
+function burstVotes(
+  votes: ScannedVote[],
+  windowMs: number,
+  isBurst: (window: ScannedVote[]) => boolean,
+) {
+  const sorted = [...votes].sort((a, b) => a.timestamp - b.timestamp);
+  const flagged = new Set<ScannedVote>();
+  let end = 0;
+  for (let start = 0; start < sorted.length; start++) {
+    while (
+      end < sorted.length &&
+      sorted[end].timestamp - sorted[start].timestamp <= windowMs
+    ) {
+      end++;
+    }
+    const window = sorted.slice(start, end);
+    if (isBurst(window)) window.forEach((vote) => flagged.add(vote));
+  }
+  return [...flagged];
+}
+
+export function findIpBursts(votes: ScannedVote[]): Finding[] {
+  const findings: Finding[] = [];
+  const groups = groupBy(votes, (vote) => `${vote.pollId}|${vote.ipHash}`);
+  for (const group of groups.values()) {
+    const flagged = burstVotes(
+      group,
+      IP_BURST_WINDOW_MS,
+      (window) => window.length >= IP_BURST_VOTES,
+    );
+    if (flagged.length === 0) continue;
+    findings.push({
+      pollId: group[0].pollId,
+      kind: "ipBurst",
+      subject: group[0].ipHash,
+      voteIds: flagged.map((vote) => vote._id),
+      detail: `${flagged.length} votes from one network, at least ${IP_BURST_VOTES} within a minute`,
+    });
+  }
+  return findings;
+}
+
+export function findUserAgentBursts(votes: ScannedVote[]): Finding[] {
+  const findings: Finding[] = [];
+  const groups = groupBy(votes, (vote) => `${vote.pollId}|${vote.userAgent}`);
+  for (const group of groups.values()) {
+    const flagged = burstVotes(
+      group,
+      USER_AGENT_BURST_WINDOW_MS,
+      (window) =>
+        new Set(window.map((vote) => vote.voterFingerprint)).size >=
+        USER_AGENT_BURST_DEVICES,
+    );
+    if (flagged.length === 0) continue;
+    findings.push({
+      pollId: group[0].pollId,
+      kind: "userAgentBurst",
+      subject: group[0].userAgent,
+      voteIds: flagged.map((vote) => vote._id),
+      detail: `${new Set(flagged.map((vote) => vote.voterFingerprint)).size} devices with an identical user agent voting within ${USER_AGENT_BURST_WINDOW_MS / 1000} seconds`,
+    });
+  }
+  return findings;
+}
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AuditEntry, auditEntryHash, verifyAuditLog } from "./audit";
+
+const pollId = "poll123";
+
+// Chains entries the way appendAuditEntry does
+async function chain(
+  entries: Pick<AuditEntry, "kind" | "receiptId" | "optionIndex">[],
+) {
+  const log: AuditEntry[] = [];
+  let prevHash = pollId;
+  for (const [seq, entry] of entries.entries()) {
+    const fields = { ...entry, seq, timestamp: 1000 + seq };
+    const hash = await auditEntryHash(prevHash, fields);
+    log.push({ ...fields, prevHash, hash });
+    prevHash = hash;
+  }
+  return log;
+}
+
+test("replays an intact log into the standing ballots", async () => {
+  const log = await chain([
+    { kind: "cast", receiptId: "a", optionIndex: 0 },
+    { kind: "cast", receiptId: "b", optionIndex: 1 },
+    { kind: "change", receiptId: "a", optionIndex: 2 },
+    { kind: "retract", receiptId: "b" },
+  ]);
+  const result = await verifyAuditLog(pollId, log);
+  assert.ok(result.valid);
+  assert.equal(result.head, log[3].hash);
+  assert.deepEqual(result.ballots, [{ optionIndex: 2, selections: undefined }]);
+});
+
+test("catches an entry edited after the fact", async () => {
+  const log = await chain([
+    { kind: "cast", receiptId: "a", optionIndex: 0 },
+    { kind: "cast", receiptId: "b", optionIndex: 1 },
+  ]);
+  log[0] = { ...log[0], optionIndex: 1 };
+  assert.deepEqual(await verifyAuditLog(pollId, log), {
+    valid: false,
+    brokenAt: 0,
+  });
+});
+
+test("catches a dropped entry", async () => {
+  const log = await chain([
+    { kind: "cast", receiptId: "a", optionIndex: 0 },
+    { kind: "cast", receiptId: "b", optionIndex: 1 },
+    { kind: "cast", receiptId: "c", optionIndex: 1 },
+  ]);
+  assert.deepEqual(await verifyAuditLog(pollId, [log[0], log[2]]), {
+    valid: false,
+    brokenAt: 1,
+  });
+});
@@ -0,0 +1,108 @@
+import { DatabaseWriter } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { sha256Hex } from "./crypto";
+
+// Each poll keeps an append-only, hash-chained log of what happened to its
+// votes. Every entry includes the hash of the one before it (the first one
+// chains from the poll id), so editing, dropping or reordering an entry
+// changes every hash after it. Entries identify a vote only by its receipt
+// ID, the SHA-256 of the receipt the voter was given.
+
+export type AuditEntry = Pick<
+  Doc<"auditLog">,
+  | "seq"
+  | "kind"
+  | "receiptId"
+  | "optionIndex"
+  | "selections"
+  | "timestamp"
+  | "prevHash"
+  | "hash"
+>;
+
+type AuditEntryFields = Omit<AuditEntry, "prevHash" | "hash">;
+
+export function toReceiptId(receipt: string) {
+  return sha256Hex(receipt);
+}
+
+export function auditEntryHash(prevHash: string, entry: AuditEntryFields) {
+  return sha256Hex(
+    prevHash +
+      JSON.stringify([
+        entry.seq,
+        entry.kind,
+        entry.receiptId,
+        entry.optionIndex ?? null,
+        entry.selections ?? null,
+        entry.timestamp,
+      ]),
+  );
+}
+
+// Call in the same transaction as the vote write it records.
+export async function appendAuditEntry(
+  db: DatabaseWriter,
+  pollId: Id<"polls">,
+  entry: Pick<AuditEntry, "kind" | "receiptId" | "optionIndex" | "selections">,
+) {
+  const last = await db
+    .query("auditLog")
+    .withIndex("by_poll_and_seq", (q) => q.eq("pollId", pollId))
+    .order("desc")
+    .first();
+
+  const fields = {
+    ...entry,
+    seq: last ? last.seq + 1 : 0,
+    timestamp: Date.now(),
+  };
+  const prevHash = last?.hash ?? pollId;
+  await db.insert("auditLog", {
+    pollId,
+    ...fields,
+    prevHash,
+    hash: await auditEntryHash(prevHash, fields),
+  });
+}
+
+// Retracted by the voter or voided by the creator
+export function removesVote(entry: Pick<AuditEntry, "kind">) {
+  return entry.kind === "retract" || entry.kind === "void";
+}
+
+// Recomputes the chain and replays it into the ballots still standing, one
+// per receipt. Runs in the browser on the audit page, so anyone can check it.
+export async function verifyAuditLog(pollId: string, entries: AuditEntry[]) {
+  const ballots = new Map<
+    string,
+    { optionIndex: number; selections?: number[] }
+  >();
+  let prevHash = pollId;
+
+  for (const [index, entry] of entries.entries()) {
+    if (
+      entry.seq !== index ||
+      entry.prevHash !== prevHash ||
+      entry.hash !== (await auditEntryHash(prevHash, entry)) ||
+      (!removesVote(entry) && entry.optionIndex === undefined)
+    ) {
+      return { valid: false as const, brokenAt: index };
+    }
+    if (removesVote(entry)) {
+      ballots.delete(entry.receiptId);
+    } else {
+      ballots.set(entry.receiptId, {
+        optionIndex: entry.optionIndex!,
+        selections: entry.selections,
+      });
+    }
+    prevHash = entry.hash;
+  }
+
+  return {
+    valid: true as const,
+    head: prevHash,
+    ballots: [...ballots.values()],
+  };
+}
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { instantRunoff } from "./ballots";
+
+const A = 0;
+const B = 1;
+const C = 2;
+
+test("a first-round majority wins outright", () => {
+  const { rounds, winner } = instantRunoff(
+    [
+      { selections: [A, B], count: 3 },
+      { selections: [B, A], count: 2 },
+    ],
+    2,
+  );
+  assert.equal(winner, A);
+  assert.deepEqual(rounds, [{ counts: [3, 2], eliminated: [] }]);
+});
+
+test("transfers the eliminated option's ballots to the next preference", () => {
+  const { rounds, winner } = instantRunoff(
+    [
+      { selections: [A], count: 4 },
+      { selections: [B, C], count: 3 },
+      { selections: [C, B], count: 2 },
+    ],
+    3,
+  );
+  assert.equal(winner, B);
+  assert.deepEqual(
+    rounds.map((round) => round.eliminated),
+    [[C], []],
+  );
+  assert.deepEqual(rounds[1].counts, [4, 5, 0]);
+});
+
+test("eliminates only one of the options tied for last", () => {
+  const { rounds, winner } = instantRunoff(
+    [
+      { selections: [A], count: 3 },
+      { selections: [B, C], count: 2 },
+      { selections: [C, B], count: 2 },
+    ],
+    3,
+  );
+  // Dropping B and C together would hand A a 3-0 win
+  assert.equal(winner, C);
+  assert.deepEqual(rounds, [
+    { counts: [3, 2, 2], eliminated: [B] },
+    { counts: [3, 0, 4], eliminated: [] },
+  ]);
+});
+
+test("breaks ties for last by earlier rounds before option order", () => {
+  // A and B are tied for last in round two, but B had fewer votes in round
+  // one, so B goes even though A comes first
+  const D = 3;
+  const { rounds } = instantRunoff(
+    [
+      { selections: [A], count: 3 },
+      { selections: [B], count: 2 },
+      { selections: [D, B], count: 1 },
+      { selections: [C], count: 4 },
+      { selections: [C, D], count: 1 },
+    ],
+    4,
+  );
+  assert.deepEqual(
+    rounds.map((round) => round.eliminated),
+    [[D], [B], []],
+  );
+  assert.deepEqual(rounds[1].counts, [3, 3, 5, 0]);
+});
+
+test("has no winner when everyone left is tied", () => {
+  const { rounds, winner } = instantRunoff(
+    [
+      { selections: [A, B], count: 2 },
+      { selections: [B, A], count: 2 },
+    ],
+    2,
+  );
+  assert.equal(winner, null);
+  assert.deepEqual(rounds, [{ counts: [2, 2], eliminated: [] }]);
+});
@@ -0,0 +1,111 @@
+import { ConvexError } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+import { isValidOptionIndex } from "./validation";
+
+export type BallotType = "single" | "multi" | "ranked";
+
+export function getBallotType(poll: Pick<Doc<"polls">, "settings">) {
+  return poll.settings.ballotType ?? "single";
+}
+
+// Checks a multi-select or ranked ballot against the poll and returns the
+// selections in a canonical form (sorted for multi, as ranked otherwise).
+export function normalizeSelections(
+  poll: Doc<"polls">,
+  selections: number[] | undefined,
+) {
+  const ballotType = getBallotType(poll);
+  if (ballotType === "single") return undefined;
+
+  if (!selections || selections.length === 0) {
+    throw new ConvexError("Please select at least one option.");
+  }
+  if (new Set(selections).size !== selections.length) {
+    throw new ConvexError("Each option can only be selected once.");
+  }
+  if (selections.some((i) => !isValidOptionIndex(poll, i))) {
+    throw new ConvexError("Invalid option selected.");
+  }
+
+  if (ballotType === "multi") {
+    const min = poll.settings.minSelections ?? 1;
+    const max = poll.settings.maxSelections ?? poll.options.length;
+    if (selections.length < min || selections.length > max) {
+      throw new ConvexError(
+        min === max
+          ? `Please select exactly ${min} options.`
+          : `Please select between ${min} and ${max} options.`,
+      );
+    }
+    return [...selections].sort((a, b) => a - b);
+  }
+
+  return selections;
+}
+
+// Identical ballots grouped together, as stored in a poll's tally.
+export type WeightedBallot = { selections: number[]; count: number };
+
+export type RunoffRound = {
+  // Votes per option this round, 0 for options already eliminated
+  counts: number[];
+  // Option knocked out at the end of this round, empty in the last round
+  eliminated: number[];
+};
+
+// Of the options tied for last, the one to eliminate: the one with the fewest
+// votes in the latest earlier round that tells them apart, then the lowest
+// index, so the same ballots always give the same result.
+function pickElimination(tied: number[], earlierRounds: RunoffRound[]) {
+  let candidates = tied;
+  for (let r = earlierRounds.length - 1; r >= 0; r--) {
+    if (candidates.length === 1) break;
+    const { counts } = earlierRounds[r];
+    const fewest = Math.min(...candidates.map((i) => counts[i]));
+    candidates = candidates.filter((i) => counts[i] === fewest);
+  }
+  return Math.min(...candidates);
+}
+
+// Instant-runoff: every round each ballot counts for its highest ranked
+// option still standing. The lowest option is eliminated, one per round,
+// until one has a majority of the ballots that are not yet exhausted.
+export function instantRunoff(ballots: WeightedBallot[], optionCount: number) {
+  const active = new Set(Array.from({ length: optionCount }, (_, i) => i));
+  const rounds: RunoffRound[] = [];
+  let winner: number | null = null;
+
+  while (active.size > 0) {
+    const counts = new Array<number>(optionCount).fill(0);
+    let continuing = 0;
+    for (const { selections, count } of ballots) {
+      const choice = selections.find((i) => active.has(i));
+      if (choice !== undefined) {
+        counts[choice] += count;
+        continuing += count;
+      }
+    }
+
+    const standing = [...active];
+    const top = Math.max(...standing.map((i) => counts[i]));
+    if (continuing > 0 && top * 2 > continuing) {
+      winner = standing.find((i) => counts[i] === top)!;
+      rounds.push({ counts, eliminated: [] });
+      break;
+    }
+
+    // Everyone left is tied, there's no one to eliminate
+    const lowest = Math.min(...standing.map((i) => counts[i]));
+    const tied = standing.filter((i) => counts[i] === lowest);
+    if (tied.length === standing.length) {
+      rounds.push({ counts, eliminated: [] });
+      break;
+    }
+
+    const eliminated = pickElimination(tied, rounds);
+    rounds.push({ counts, eliminated: [eliminated] });
+    active.delete(eliminated);
+  }
+
+  return { rounds, winner };
+}
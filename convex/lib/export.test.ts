@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { toCsv } from "./export";
+
+test("quotes fields with commas, quotes and line breaks", () => {
+  assert.equal(
+    toCsv(["option", "votes"], [['Yes, "definitely"', 3], ["No\nway", 0]]),
+    'option,votes\r\n"Yes, ""definitely""",3\r\n"No\nway",0',
+  );
+});
+
+test("leaves plain fields as they are and blanks missing ones", () => {
+  assert.equal(
+    toCsv(["a", "b", "c"], [["x", undefined, true]]),
+    "a,b,c\r\nx,,true",
+  );
+});
@@ -0,0 +1,13 @@
+type CsvValue = string | number | boolean | undefined;
+
+// Quotes fields that contain separators, quotes or line breaks (RFC 4180).
+function csvField(value: CsvValue) {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]) {
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+}
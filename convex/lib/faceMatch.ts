@@ -0,0 +1,32 @@
+// Cosine similarity above which two face descriptors are treated as the
+// same person, unless the poll sets its own faceMatchThreshold. Tune it with
+// `pnpm calibrate:face` rather than by hand.
+export const DEFAULT_FACE_MATCH_THRESHOLD = 0.95;
+
+// How many nearest neighbours to look at for each new face.
+export const FACE_MATCH_CANDIDATES = 10;
+
+// Same metric the by_embedding vector index scores with.
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Margin before a vector search that recordVote re-checks in its own
+// transaction, covering votes the index may not have caught up with.
+export const FACE_INDEX_LAG_MS = 60000;
+
+// How far below the threshold abuse.analyze still flags a pair of faces
+// for review.
+export const FACE_NEAR_MATCH_MARGIN = 0.05;
+
+export function isFaceMatch(score: number, threshold: number) {
+  return score > threshold;
+}
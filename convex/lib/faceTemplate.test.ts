@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Id } from "../_generated/dataModel";
+import { toFaceTemplate } from "./faceTemplate";
+
+process.env.FACE_TEMPLATE_SECRET = "test-secret";
+
+const pollA = "pollA" as Id<"polls">;
+const pollB = "pollB" as Id<"polls">;
+
+// Deterministic stand-ins for face-api.js descriptors
+const descriptor = (seed: number) =>
+  Array.from({ length: 128 }, (_, i) => Math.sin(seed * (i + 1)));
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot / (Math.hypot(...a) * Math.hypot(...b));
+}
+
+test("keeps cosine similarity between faces in one poll", async () => {
+  const [a, b] = [descriptor(1), descriptor(2)];
+  const similarity = cosine(
+    await toFaceTemplate(pollA, a),
+    await toFaceTemplate(pollA, b),
+  );
+  assert.ok(Math.abs(similarity - cosine(a, b)) < 1e-9);
+});
+
+test("rotates the same face differently in another poll", async () => {
+  const face = descriptor(1);
+  const inA = await toFaceTemplate(pollA, face);
+  assert.deepEqual(await toFaceTemplate(pollA, face), inA);
+  assert.ok(cosine(inA, await toFaceTemplate(pollB, face)) < 0.5);
+  assert.ok(cosine(inA, face) < 0.5);
+});
+
+test("rejects descriptors of the wrong size", async () => {
+  await assert.rejects(toFaceTemplate(pollA, [1, 2, 3]));
+});
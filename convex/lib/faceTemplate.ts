@@ -0,0 +1,98 @@
+import { ConvexError } from "convex/values";
+import { Id } from "../_generated/dataModel";
+import { hmacSha256Hex } from "./crypto";
+
+// Raw face-api.js descriptors are biometric data, so they are never stored.
+// Instead each one is rotated by a secret orthogonal matrix derived from
+// FACE_TEMPLATE_SECRET and the poll id. Rotation keeps cosine similarity
+// exactly, so vector search and thresholds work unchanged, but without the
+// key a stored template can't be turned back into a descriptor or matched
+// against the same face in another poll or another system.
+
+const DIMENSIONS = 128;
+
+// How long templates are kept once a poll closes, unless the poll sets
+// settings.embeddingRetentionDays.
+export const DEFAULT_EMBEDDING_RETENTION_DAYS = 7;
+
+const matrices = new Map<string, Float64Array[]>();
+
+async function seedFor(pollId: Id<"polls">) {
+  const secret = process.env.FACE_TEMPLATE_SECRET;
+  if (!secret) {
+    throw new Error("FACE_TEMPLATE_SECRET is not configured");
+  }
+
+  const hex = await hmacSha256Hex(secret, `face-template:${pollId}`);
+  const bytes = Uint8Array.from(hex.match(/../g)!, (byte) =>
+    parseInt(byte, 16),
+  );
+  return new Uint32Array(bytes.buffer);
+}
+
+// sfc32, seeded from the HMAC so the same poll always gets the same matrix.
+function seededRandom(seed: Uint32Array) {
+  let [a, b, c, d] = seed;
+  return () => {
+    a >>>= 0;
+    b >>>= 0;
+    c >>>= 0;
+    d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
+
+// Gaussian rows made orthonormal with Gram-Schmidt give a uniformly random
+// rotation.
+function randomRotation(random: () => number) {
+  const gaussian = () => {
+    const u = random() || Number.MIN_VALUE;
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const rows: Float64Array[] = [];
+  while (rows.length < DIMENSIONS) {
+    const row = Float64Array.from({ length: DIMENSIONS }, gaussian);
+    for (const prev of rows) {
+      let dot = 0;
+      for (let i = 0; i < DIMENSIONS; i++) dot += row[i] * prev[i];
+      for (let i = 0; i < DIMENSIONS; i++) row[i] -= dot * prev[i];
+    }
+    const norm = Math.hypot(...row);
+    // Practically never, but a degenerate row can't be normalised
+    if (norm < 1e-9) continue;
+    for (let i = 0; i < DIMENSIONS; i++) row[i] /= norm;
+    rows.push(row);
+  }
+  return rows;
+}
+
+export async function toFaceTemplate(
+  pollId: Id<"polls">,
+  descriptor: number[],
+) {
+  if (descriptor.length !== DIMENSIONS) {
+    throw new ConvexError(
+      `Face descriptors must have ${DIMENSIONS} dimensions`,
+    );
+  }
+
+  let matrix = matrices.get(pollId);
+  if (!matrix) {
+    matrix = randomRotation(seededRandom(await seedFor(pollId)));
+    matrices.set(pollId, matrix);
+  }
+
+  return matrix.map((row) => {
+    let sum = 0;
+    for (let i = 0; i < DIMENSIONS; i++) sum += row[i] * descriptor[i];
+    return sum;
+  });
+}
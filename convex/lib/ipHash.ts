@@ -0,0 +1,28 @@
+import { Id } from "../_generated/dataModel";
+import { hmacSha256Hex } from "./crypto";
+
+// Read the caller's IP from the request itself so the client can't pick it.
+// Headers like cf-connecting-ip or the first x-forwarded-for hop are set by
+// whoever sends the request, so by default only the last x-forwarded-for hop
+// is used: that one is appended by Convex's own proxy. Deployments behind a
+// proxy that overwrites a header of its own can name it in CLIENT_IP_HEADER.
+export function getClientIp(request: Request): string {
+  const trustedHeader = process.env.CLIENT_IP_HEADER;
+  if (trustedHeader) {
+    return request.headers.get(trustedHeader)?.trim() || "unknown";
+  }
+
+  const hops = request.headers.get("x-forwarded-for")?.split(",") ?? [];
+  return hops[hops.length - 1]?.trim() || "unknown";
+}
+
+// Keyed HMAC-SHA256 of the IP, salted with the poll id so the same network
+// can't be linked across polls and the raw address is never stored.
+export async function hashIp(pollId: Id<"polls">, ip: string) {
+  const secret = process.env.IP_HASH_SECRET;
+  if (!secret) {
+    throw new Error("IP_HASH_SECRET is not configured");
+  }
+
+  return await hmacSha256Hex(secret, `${pollId}:${ip}`);
+}
@@ -0,0 +1,96 @@
+import { DatabaseReader } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { getBallotType, instantRunoff } from "./ballots";
+import { computeTally, getTally, loadTally, TallyCounts } from "./tallies";
+import { getVisibility } from "./access";
+
+// A poll is closed once its creator closes it or its deadline passes.
+export function isPollClosed(
+  poll: Pick<Doc<"polls">, "closedAt"> & {
+    settings: Pick<Doc<"polls">["settings"], "closeAt">;
+  },
+  now = Date.now(),
+) {
+  return (
+    poll.closedAt !== undefined ||
+    (poll.settings.closeAt !== undefined && now > poll.settings.closeAt)
+  );
+}
+
+// What poll lists (the dashboard and the explore feed) show for each poll.
+// The count comes from the tally, so lists stay live without reading votes.
+export async function summarizePoll(db: DatabaseReader, poll: Doc<"polls">) {
+  return {
+    _id: poll._id,
+    _creationTime: poll._creationTime,
+    question: poll.question,
+    closeAt: poll.settings.closeAt,
+    closedAt: poll.closedAt,
+    visibility: getVisibility(poll),
+    totalVotes:
+      poll.finalResults?.totalVotes ??
+      (await getTally(db, poll._id))?.totalVotes ??
+      0,
+  };
+}
+
+// The one field the explore search index covers, question and options
+export function searchText(question: string, options: string[]) {
+  return [question, ...options].join("\n");
+}
+
+// Per-option counts and percentages, as shown in the results view. Multi-
+// select polls count approvals (percentages are of voters, so they can add
+// up to more than 100), ranked polls run an instant-runoff and report the
+// final round alongside every round before it.
+export async function tallyResults(db: DatabaseReader, poll: Doc<"polls">) {
+  const tally =
+    (await loadTally(db, poll)) ??
+    // Not backfilled yet, fall back to counting the votes
+    computeTally(
+      poll,
+      await db
+        .query("votes")
+        .withIndex("by_poll", (q) => q.eq("pollId", poll._id))
+        .collect(),
+    );
+  return resultsFromTally(poll, tally);
+}
+
+// The computation half of tallyResults, shared with the audit page which
+// recounts from the audit log in the browser.
+export function resultsFromTally(
+  poll: Pick<Doc<"polls">, "options" | "settings">,
+  tally: TallyCounts,
+) {
+  if (getBallotType(poll) === "ranked") {
+    const { rounds, winner } = instantRunoff(
+      tally.rankings ?? [],
+      poll.options.length,
+    );
+    const finalCounts = rounds[rounds.length - 1].counts;
+    const continuing = finalCounts.reduce((sum, n) => sum + n, 0);
+    return {
+      options: poll.options.map((option: string, index: number) => ({
+        text: option,
+        votes: finalCounts[index],
+        percentage:
+          continuing > 0 ? (finalCounts[index] / continuing) * 100 : 0,
+      })),
+      totalVotes: tally.totalVotes,
+      rounds,
+      winner,
+    };
+  }
+
+  const options = poll.options.map((option: string, index: number) => ({
+    text: option,
+    votes: tally.optionCounts[index],
+    percentage:
+      tally.totalVotes > 0
+        ? (tally.optionCounts[index] / tally.totalVotes) * 100
+        : 0,
+  }));
+
+  return { options, totalVotes: tally.totalVotes };
+}
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConvexError } from "convex/values";
+import { DatabaseWriter } from "../_generated/server";
+import { consumeRateLimits, RateLimitError } from "./rateLimit";
+
+type Bucket = { _id: string; key: string; tokens: number; updatedAt: number };
+
+// Just enough of the database for the rateLimits by_key lookups
+function fakeDb() {
+  const buckets = new Map<string, Bucket>();
+  const db = {
+    query: () => ({
+      withIndex: (
+        _index: string,
+        range: (q: { eq: (field: string, key: string) => unknown }) => unknown,
+      ) => {
+        let key = "";
+        range({ eq: (_field, value) => (key = value) });
+        return { unique: async () => buckets.get(key) ?? null };
+      },
+    }),
+    insert: async (_table: string, fields: Omit<Bucket, "_id">) => {
+      buckets.set(fields.key, { _id: fields.key, ...fields });
+    },
+    patch: async (id: string, fields: Partial<Bucket>) => {
+      buckets.set(id, { ...buckets.get(id)!, ...fields });
+    },
+  } as unknown as DatabaseWriter;
+  return { db, buckets };
+}
+
+const perMinute = (key: string, limit: number) => ({
+  key,
+  limit,
+  windowMs: 60_000,
+  message: `Too many requests for ${key}`,
+});
+
+const isRateLimited = (err: unknown): err is ConvexError<RateLimitError> =>
+  err instanceof ConvexError && err.data.code === "RATE_LIMITED";
+
+test("denies once the bucket is empty and says when to retry", async () => {
+  const { db } = fakeDb();
+  const limits = [perMinute("ip", 2)];
+  await consumeRateLimits(db, limits, 0);
+  await consumeRateLimits(db, limits, 0);
+
+  await assert.rejects(consumeRateLimits(db, limits, 0), (err) => {
+    assert.ok(isRateLimited(err));
+    assert.equal(err.data.message, "Too many requests for ip");
+    // One token back at 2 per minute
+    assert.equal(err.data.retryAfter, 30_000);
+    return true;
+  });
+});
+
+test("refills over the window", async () => {
+  const { db, buckets } = fakeDb();
+  const limits = [perMinute("ip", 2)];
+  await consumeRateLimits(db, limits, 0);
+  await consumeRateLimits(db, limits, 0);
+
+  await consumeRateLimits(db, limits, 30_000);
+  assert.equal(buckets.get("ip")!.tokens, 0);
+});
+
+test("doesn't use up the other limits when one blocks", async () => {
+  const { db, buckets } = fakeDb();
+  await consumeRateLimits(db, [perMinute("device", 1)], 0);
+
+  await assert.rejects(
+    consumeRateLimits(db, [perMinute("ip", 5), perMinute("device", 1)], 0),
+    isRateLimited,
+  );
+  assert.equal(buckets.has("ip"), false);
+});
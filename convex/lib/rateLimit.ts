@@ -0,0 +1,71 @@
+import { ConvexError } from "convex/values";
+import { DatabaseWriter } from "../_generated/server";
+
+export type RateLimit = {
+  // Bucket identity, e.g. `ip:<pollId>:<ipHash>`
+  key: string;
+  // Requests allowed per window, also the burst size
+  limit: number;
+  windowMs: number;
+  // Shown to the user when the limit is hit
+  message: string;
+};
+
+export type RateLimitError = {
+  code: "RATE_LIMITED";
+  message: string;
+  // Milliseconds until the blocking bucket has room again
+  retryAfter: number;
+};
+
+// Token bucket: every bucket holds up to `limit` tokens and refills at
+// `limit / windowMs` tokens per ms. All buckets are checked before any is
+// consumed, so a request blocked by one limit doesn't use up the others.
+export async function consumeRateLimits(
+  db: DatabaseWriter,
+  limits: RateLimit[],
+  now = Date.now(),
+) {
+  const buckets = await Promise.all(
+    limits.map(async (limit) => {
+      const existing = await db
+        .query("rateLimits")
+        .withIndex("by_key", (q) => q.eq("key", limit.key))
+        .unique();
+      const rate = limit.limit / limit.windowMs;
+      const tokens = existing
+        ? Math.min(
+            limit.limit,
+            existing.tokens + (now - existing.updatedAt) * rate,
+          )
+        : limit.limit;
+      return { limit, existing, rate, tokens };
+    }),
+  );
+
+  const blocked = buckets.filter((b) => b.tokens < 1);
+  if (blocked.length > 0) {
+    const retryAfter = Math.max(
+      ...blocked.map((b) => Math.ceil((1 - b.tokens) / b.rate)),
+    );
+    throw new ConvexError<RateLimitError>({
+      code: "RATE_LIMITED",
+      message: blocked[0].limit.message,
+      retryAfter,
+    });
+  }
+
+  for (const { limit, existing, rate, tokens } of buckets) {
+    const fields = {
+      tokens: tokens - 1,
+      updatedAt: now,
+      // Once full again the bucket is the same as no bucket at all
+      expiresAt: now + Math.ceil((limit.limit - (tokens - 1)) / rate),
+    };
+    if (existing) {
+      await db.patch(existing._id, fields);
+    } else {
+      await db.insert("rateLimits", { key: limit.key, ...fields });
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Id } from "../_generated/dataModel";
+import { hmacSha256Hex } from "./crypto";
+
+// A receipt is the vote id plus an HMAC of it, so holding one proves the
+// vote is yours without us storing anything that links it to the voter.
+// Its receipt ID (lib/audit) is what the public audit log shows.
+
+export type VoteReceipt = { receipt: string; receiptId: string };
+
+function receiptSecret() {
+  const secret = process.env.RECEIPT_SECRET;
+  if (!secret) {
+    throw new Error("RECEIPT_SECRET is not configured");
+  }
+  return secret;
+}
+
+export async function signReceipt(voteId: Id<"votes">) {
+  const signature = await hmacSha256Hex(receiptSecret(), `receipt:${voteId}`);
+  return `${voteId}.${signature}`;
+}
+
+// The vote id the receipt was issued for, or null if it wasn't issued by us.
+export async function verifyReceipt(receipt: string) {
+  const [voteId, signature] = receipt.split(".");
+  if (!voteId || !signature) return null;
+  const expected = await hmacSha256Hex(receiptSecret(), `receipt:${voteId}`);
+  return signature === expected ? (voteId as Id<"votes">) : null;
+}
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeTally } from "./tallies";
+
+const poll = (ballotType: "single" | "multi" | "ranked") => ({
+  options: ["A", "B", "C"],
+  settings: {
+    allowMultipleVotes: false,
+    maxVotesPerIP: 3,
+    requireCaptcha: false,
+    ballotType,
+  },
+});
+
+test("counts single choice votes and skips voided ones", () => {
+  const tally = computeTally(poll("single"), [
+    { optionIndex: 0 },
+    { optionIndex: 2 },
+    { optionIndex: 2 },
+    { optionIndex: 1, voided: true },
+  ]);
+  assert.deepEqual(tally, { totalVotes: 3, optionCounts: [1, 0, 2] });
+});
+
+test("counts every approval on a multi-select ballot", () => {
+  const tally = computeTally(poll("multi"), [
+    { optionIndex: 0, selections: [0, 1] },
+    { optionIndex: 1, selections: [1, 2] },
+  ]);
+  assert.deepEqual(tally.optionCounts, [1, 2, 1]);
+  assert.equal(tally.totalVotes, 2);
+});
+
+test("groups identical rankings and counts first preferences", () => {
+  const tally = computeTally(poll("ranked"), [
+    { optionIndex: 0, selections: [0, 1, 2] },
+    { optionIndex: 2, selections: [2, 1] },
+    { optionIndex: 0, selections: [0, 1, 2] },
+  ]);
+  assert.deepEqual(tally.optionCounts, [2, 0, 1]);
+  assert.deepEqual(tally.rankings, [
+    { selections: [0, 1, 2], count: 2 },
+    { selections: [2, 1], count: 1 },
+  ]);
+});
@@ -0,0 +1,216 @@
+import { DatabaseReader, DatabaseWriter } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { getBallotType, WeightedBallot } from "./ballots";
+
+export type TallyCounts = Pick<
+  Doc<"pollTallies">,
+  "totalVotes" | "optionCounts"
+> & {
+  // Identical rankings grouped together, ranked polls only
+  rankings?: WeightedBallot[];
+};
+type TallyPoll = Pick<Doc<"polls">, "options" | "settings">;
+type TallyVote = Pick<Doc<"votes">, "optionIndex" | "selections"> &
+  Partial<Pick<Doc<"votes">, "voided">>;
+
+const ballotOf = (vote: TallyVote) => vote.selections ?? [vote.optionIndex];
+
+export function emptyTally(poll: TallyPoll): TallyCounts {
+  return {
+    totalVotes: 0,
+    optionCounts: new Array<number>(poll.options.length).fill(0),
+    rankings: getBallotType(poll) === "ranked" ? [] : undefined,
+  };
+}
+
+// The options a vote adds to the per-option counts: every option picked on
+// a multi-select ballot, the first preference on a ranked one.
+export function countedOptions(poll: TallyPoll, vote: TallyVote) {
+  const ballot = ballotOf(vote);
+  if (getBallotType(poll) === "ranked") return ballot.slice(0, 1);
+  return ballot.filter((index) => index >= 0 && index < poll.options.length);
+}
+
+function applyCounts(
+  poll: TallyPoll,
+  tally: Pick<TallyCounts, "totalVotes" | "optionCounts">,
+  vote: TallyVote,
+  delta: 1 | -1,
+) {
+  const optionCounts = [...tally.optionCounts];
+  for (const index of countedOptions(poll, vote)) {
+    optionCounts[index] += delta;
+  }
+  return { totalVotes: tally.totalVotes + delta, optionCounts };
+}
+
+// Re-derives a tally from scratch, for backfills and consistency checks.
+// Voided votes don't count. Ranked votes are also grouped by full ranking
+// for the runoff.
+export function computeTally(poll: TallyPoll, votes: TallyVote[]) {
+  const counted = votes.filter((vote) => !vote.voided);
+  const tally: TallyCounts = counted.reduce(
+    (counts, vote) => applyCounts(poll, counts, vote, 1),
+    emptyTally(poll),
+  );
+  if (getBallotType(poll) !== "ranked") return tally;
+
+  const rankings = new Map<string, WeightedBallot>();
+  for (const vote of counted) {
+    const selections = ballotOf(vote);
+    const key = rankingKey(selections);
+    const ranking = rankings.get(key) ?? { selections, count: 0 };
+    rankings.set(key, { ...ranking, count: ranking.count + 1 });
+  }
+  return { ...tally, rankings: [...rankings.values()] };
+}
+
+export const rankingKey = (selections: number[]) => selections.join(",");
+
+export async function getTally(db: DatabaseReader, pollId: Id<"polls">) {
+  return await db
+    .query("pollTallies")
+    .withIndex("by_poll", (q) => q.eq("pollId", pollId))
+    .unique();
+}
+
+// The stored tally with its rankings, or null for polls that predate
+// tallies. Ranked ballots live in rankingCounts, one row per distinct
+// ranking, so the tally document stays small however many orderings voters
+// come up with.
+export async function loadTally(
+  db: DatabaseReader,
+  poll: Pick<Doc<"polls">, "_id" | "settings">,
+): Promise<TallyCounts | null> {
+  const tally = await getTally(db, poll._id);
+  if (!tally) return null;
+  const counts = {
+    totalVotes: tally.totalVotes,
+    optionCounts: tally.optionCounts,
+  };
+  if (getBallotType(poll) !== "ranked") return counts;
+  // Tallies from before rankingCounts, until their next vote moves them
+  if (tally.rankings) return { ...counts, rankings: tally.rankings };
+
+  const rows = await db
+    .query("rankingCounts")
+    .withIndex("by_poll_and_ballot", (q) => q.eq("pollId", poll._id))
+    .collect();
+  return {
+    ...counts,
+    rankings: rows.map(({ selections, count }) => ({ selections, count })),
+  };
+}
+
+async function adjustRanking(
+  db: DatabaseWriter,
+  pollId: Id<"polls">,
+  selections: number[],
+  delta: number,
+) {
+  const ballot = rankingKey(selections);
+  const row = await db
+    .query("rankingCounts")
+    .withIndex("by_poll_and_ballot", (q) =>
+      q.eq("pollId", pollId).eq("ballot", ballot),
+    )
+    .unique();
+  if (!row) {
+    if (delta > 0) {
+      await db.insert("rankingCounts", {
+        pollId,
+        ballot,
+        selections,
+        count: delta,
+      });
+    }
+  } else if (row.count + delta > 0) {
+    await db.patch(row._id, { count: row.count + delta });
+  } else {
+    await db.delete(row._id);
+  }
+}
+
+// Moves rankings still held on a tally document into rankingCounts
+async function migrateRankings(
+  db: DatabaseWriter,
+  tally: Doc<"pollTallies">,
+) {
+  if (!tally.rankings) return;
+  for (const { selections, count } of tally.rankings) {
+    await adjustRanking(db, tally.pollId, selections, count);
+  }
+  await db.patch(tally._id, { rankings: undefined });
+}
+
+// Replaces a poll's stored tally, rankings included, with `counts`.
+export async function writeTally(
+  db: DatabaseWriter,
+  pollId: Id<"polls">,
+  counts: TallyCounts,
+) {
+  const { rankings, ...totals } = counts;
+  const tally = await getTally(db, pollId);
+  if (tally) {
+    await db.patch(tally._id, { ...totals, rankings: undefined });
+  } else {
+    await db.insert("pollTallies", { pollId, ...totals });
+  }
+
+  const stale = await db
+    .query("rankingCounts")
+    .withIndex("by_poll_and_ballot", (q) => q.eq("pollId", pollId))
+    .collect();
+  for (const row of stale) {
+    await db.delete(row._id);
+  }
+  for (const { selections, count } of rankings ?? []) {
+    await adjustRanking(db, pollId, selections, count);
+  }
+}
+
+// Called after the vote is written, in the same transaction, so the counts
+// never drift from the votes table.
+export async function updateTally(
+  db: DatabaseWriter,
+  poll: Doc<"polls">,
+  vote: TallyVote,
+  delta: 1 | -1,
+) {
+  const tally = await getTally(db, poll._id);
+  if (!tally) return await insertTally(db, poll);
+
+  await db.patch(tally._id, applyCounts(poll, tally, vote, delta));
+  if (getBallotType(poll) === "ranked") {
+    await migrateRankings(db, tally);
+    await adjustRanking(db, poll._id, ballotOf(vote), delta);
+  }
+}
+
+// Like updateTally, for a vote whose ballot was changed from one to the other.
+export async function moveVote(
+  db: DatabaseWriter,
+  poll: Doc<"polls">,
+  from: TallyVote,
+  to: TallyVote,
+) {
+  const tally = await getTally(db, poll._id);
+  if (!tally) return await insertTally(db, poll);
+
+  const removed = applyCounts(poll, tally, from, -1);
+  await db.patch(tally._id, applyCounts(poll, removed, to, 1));
+  if (getBallotType(poll) === "ranked") {
+    await migrateRankings(db, tally);
+    await adjustRanking(db, poll._id, ballotOf(from), -1);
+    await adjustRanking(db, poll._id, ballotOf(to), 1);
+  }
+}
+
+// Polls created before tallies existed start from their existing votes
+async function insertTally(db: DatabaseWriter, poll: Doc<"polls">) {
+  const votes = await db
+    .query("votes")
+    .withIndex("by_poll", (q) => q.eq("pollId", poll._id))
+    .collect();
+  await writeTally(db, poll._id, computeTally(poll, votes));
+}
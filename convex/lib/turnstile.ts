@@ -0,0 +1,55 @@
+import { ConvexError } from "convex/values";
+import { sha256Hex } from "./crypto";
+
+// Checks a Turnstile token. Returns false when the token is rejected.
+export type TurnstileVerifier = (
+  token: string,
+  remoteIp: string,
+) => Promise<boolean>;
+
+const SITEVERIFY_URL =
+  "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+export function cloudflareVerifier(secretKey: string): TurnstileVerifier {
+  return async (token, remoteIp) => {
+    const formData = new FormData();
+    formData.append("secret", secretKey);
+    formData.append("response", token);
+    formData.append("remoteip", remoteIp);
+
+    // An unreachable or misbehaving siteverify is the voter's problem to
+    // retry, not a server error
+    let outcome;
+    try {
+      const result = await fetch(SITEVERIFY_URL, {
+        method: "POST",
+        body: formData,
+      });
+      outcome = await result.json();
+    } catch (err) {
+      console.error("Turnstile verification failed", err);
+      throw new ConvexError(
+        "Bot verification is unavailable. Please try again.",
+      );
+    }
+    return !!outcome?.success;
+  };
+}
+
+// Local stand-in for Cloudflare so dev backends and tests don't hit the
+// network. Any token is accepted unless it starts with "fail".
+export const localVerifier: TurnstileVerifier = async (token) =>
+  !token.startsWith("fail");
+
+// Picks the verifier from TURNSTILE_VERIFIER ("cloudflare" by default, or
+// "local"). Returns null when Cloudflare is selected but no secret is set.
+export function getVerifier(): TurnstileVerifier | null {
+  if (process.env.TURNSTILE_VERIFIER === "local") {
+    return localVerifier;
+  }
+  const secretKey = process.env.CLOUDFLARE_TURNSTILE_SECRET_KEY;
+  return secretKey ? cloudflareVerifier(secretKey) : null;
+}
+
+// Tokens are stored hashed once consumed, we only need to recognise replays.
+export const hashToken = sha256Hex;
@@ -0,0 +1,42 @@
+// Coarse user agent parsing for the analytics breakdown. Order matters:
+// Edge and Opera also claim to be Chrome, Chrome also claims to be Safari.
+
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg(e|A|iOS)?\//],
+  ["Opera", /OPR\/|Opera/],
+  ["Samsung Internet", /SamsungBrowser\//],
+  ["Firefox", /Firefox\/|FxiOS\//],
+  ["Chrome", /Chrome\/|CriOS\//],
+  ["Safari", /Safari\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["ChromeOS", /CrOS/],
+  ["Linux", /Linux/],
+];
+
+export type DeviceClass = "mobile" | "tablet" | "desktop" | "bot";
+
+function match(list: [string, RegExp][], userAgent: string) {
+  return list.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? "Other";
+}
+
+function deviceClass(userAgent: string): DeviceClass {
+  if (/bot|crawler|spider|headless/i.test(userAgent)) return "bot";
+  if (/iPad|Tablet/.test(userAgent)) return "tablet";
+  if (/Android/.test(userAgent) && !/Mobile/.test(userAgent)) return "tablet";
+  if (/Mobi|iPhone|iPod/.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+export function parseUserAgent(userAgent: string) {
+  return {
+    browser: match(BROWSERS, userAgent),
+    os: match(OPERATING_SYSTEMS, userAgent),
+    device: deviceClass(userAgent),
+  };
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConvexError } from "convex/values";
+import {
+  assertValid,
+  fieldErrorsOf,
+  validatePoll,
+  validatePollText,
+} from "./validation";
+
+const settings = {
+  allowMultipleVotes: false,
+  maxVotesPerIP: 3,
+  requireCaptcha: false,
+};
+
+test("reports each problem under its own field", () => {
+  const errors = validatePollText(" ", ["Yes", "yes ", ""]);
+  assert.deepEqual(Object.keys(errors).sort(), [
+    "options.1",
+    "options.2",
+    "question",
+  ]);
+  assert.equal(errors["options.1"], "This option is listed twice.");
+});
+
+test("checks settings against their ranges", () => {
+  const errors = validatePoll(
+    {
+      question: "Lunch?",
+      options: ["Pizza", "Salad"],
+      settings: {
+        ...settings,
+        maxVotesPerIP: 0,
+        faceMatchThreshold: 1.2,
+        closeAt: 1000,
+      },
+    },
+    2000,
+  );
+  assert.deepEqual(Object.keys(errors).sort(), [
+    "closeAt",
+    "faceMatchThreshold",
+    "maxVotesPerIP",
+  ]);
+});
+
+test("throws the field errors with the first one as the message", () => {
+  const errors = { question: "Enter a question.", "options.0": "Too long." };
+  assert.throws(
+    () => assertValid(errors),
+    (err) =>
+      err instanceof ConvexError &&
+      err.data.message === "Enter a question." &&
+      fieldErrorsOf(err) === errors,
+  );
+  assert.doesNotThrow(() => assertValid({}));
+});
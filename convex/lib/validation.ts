@@ -0,0 +1,172 @@
+import { ConvexError } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+
+// Poll and ballot checks shared by the Convex functions and the create
+// form, so the browser can show the same errors inline before submitting.
+
+export const QUESTION_MAX_LENGTH = 300;
+export const OPTION_MAX_LENGTH = 120;
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 10;
+
+// Inclusive bounds for the numeric settings
+export const SETTING_RANGES = {
+  maxVotesPerIP: { min: 1, max: 100 },
+  rateLimitWindowMinutes: { min: 1, max: 1440 },
+  maxVotesPerDevice: { min: 1, max: 100 },
+  maxVotesPerMinute: { min: 1, max: 1000 },
+  embeddingRetentionDays: { min: 0, max: 365 },
+};
+export const FACE_MATCH_THRESHOLD_RANGE = { min: 0.5, max: 0.99 };
+
+// Error messages keyed by field: "question", "options" for the list as a
+// whole, "options.<index>" for a single option, or a settings key.
+export type FieldErrors = Record<string, string>;
+
+export type PollInput = Pick<Doc<"polls">, "question" | "options" | "settings">;
+
+const isIntegerIn = (value: number, range: { min: number; max: number }) =>
+  Number.isInteger(value) && value >= range.min && value <= range.max;
+
+// Text is compared trimmed and case-insensitively, so "Yes" and "yes " are
+// duplicates.
+const normalizeText = (text: string) => text.trim().toLowerCase();
+
+export function validatePollText(question: string, options: string[]) {
+  const errors: FieldErrors = {};
+
+  if (!question.trim()) {
+    errors.question = "Enter a question.";
+  } else if (question.trim().length > QUESTION_MAX_LENGTH) {
+    errors.question = `Keep the question under ${QUESTION_MAX_LENGTH} characters.`;
+  }
+
+  if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+    errors.options = `Polls need ${MIN_OPTIONS} to ${MAX_OPTIONS} options.`;
+  }
+  const seen = new Set<string>();
+  options.forEach((option, index) => {
+    const key = `options.${index}`;
+    if (!option.trim()) {
+      errors[key] = "Enter an option or remove it.";
+    } else if (option.trim().length > OPTION_MAX_LENGTH) {
+      errors[key] = `Keep options under ${OPTION_MAX_LENGTH} characters.`;
+    } else if (seen.has(normalizeText(option))) {
+      errors[key] = "This option is listed twice.";
+    }
+    seen.add(normalizeText(option));
+  });
+
+  return errors;
+}
+
+// Every check for a new or edited poll. closeAt is only required to be in
+// the future when `now` is given, edits keep whatever deadline was set.
+export function validatePoll(input: PollInput, now?: number) {
+  const { settings } = input;
+  const errors = validatePollText(input.question, input.options);
+
+  for (const key of Object.keys(
+    SETTING_RANGES,
+  ) as (keyof typeof SETTING_RANGES)[]) {
+    const value = settings[key];
+    const range = SETTING_RANGES[key];
+    if (value !== undefined && !isIntegerIn(value, range)) {
+      errors[key] = `Must be a whole number from ${range.min} to ${range.max}.`;
+    }
+  }
+
+  const threshold = settings.faceMatchThreshold;
+  if (
+    threshold !== undefined &&
+    !(
+      threshold >= FACE_MATCH_THRESHOLD_RANGE.min &&
+      threshold <= FACE_MATCH_THRESHOLD_RANGE.max
+    )
+  ) {
+    errors.faceMatchThreshold = `Must be between ${FACE_MATCH_THRESHOLD_RANGE.min} and ${FACE_MATCH_THRESHOLD_RANGE.max}.`;
+  }
+
+  if (settings.ballotType === "multi") {
+    const min = settings.minSelections ?? 1;
+    const max = settings.maxSelections ?? input.options.length;
+    const picks = { min: 1, max: input.options.length };
+    if (!isIntegerIn(min, picks)) {
+      errors.minSelections = `Must be from 1 to ${input.options.length}.`;
+    } else if (!isIntegerIn(max, picks)) {
+      errors.maxSelections = `Can't be more than the number of options (${input.options.length}).`;
+    } else if (min > max) {
+      errors.maxSelections = "Must be at least the minimum.";
+    }
+  }
+
+  if (settings.closeAt !== undefined) {
+    if (!Number.isFinite(settings.closeAt)) {
+      errors.closeAt = "Enter a valid date and time.";
+    } else if (now !== undefined && settings.closeAt <= now) {
+      errors.closeAt = "The close time must be in the future.";
+    }
+  }
+
+  return errors;
+}
+
+export const PASSCODE_LENGTH = { min: 8, max: 64 };
+
+// Passcodes are kept apart from the settings, which anyone can read.
+export function validatePasscode(
+  settings: PollInput["settings"],
+  passcode: string | undefined,
+) {
+  const errors: FieldErrors = {};
+  if (settings.visibility !== "passcode") return errors;
+  const length = passcode?.trim().length ?? 0;
+  if (length < PASSCODE_LENGTH.min || length > PASSCODE_LENGTH.max) {
+    errors.passcode = `Use ${PASSCODE_LENGTH.min} to ${PASSCODE_LENGTH.max} characters.`;
+  }
+  return errors;
+}
+
+// Only public polls can be advertised on the explore page.
+export function validateListing(
+  settings: PollInput["settings"],
+  listed: boolean | undefined,
+) {
+  const errors: FieldErrors = {};
+  if (listed && (settings.visibility ?? "public") !== "public") {
+    errors.listed = "Only public polls can be listed.";
+  }
+  return errors;
+}
+
+// Throws the errors for the form to show next to each field. The message is
+// the first error, for callers that only show a toast.
+export function assertValid(errors: FieldErrors) {
+  const messages = Object.values(errors);
+  if (messages.length > 0) {
+    throw new ConvexError({ message: messages[0], fieldErrors: errors });
+  }
+}
+
+// Field errors from a failed create or edit, if that's what failed.
+export function fieldErrorsOf(err: unknown): FieldErrors | null {
+  if (
+    err instanceof ConvexError &&
+    typeof err.data === "object" &&
+    err.data?.fieldErrors
+  ) {
+    return err.data.fieldErrors;
+  }
+  return null;
+}
+
+export function isValidOptionIndex(
+  poll: Pick<Doc<"polls">, "options">,
+  optionIndex: number,
+) {
+  return (
+    Number.isInteger(optionIndex) &&
+    optionIndex >= 0 &&
+    optionIndex < poll.options.length
+  );
+}
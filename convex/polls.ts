@@ -1,30 +1,158 @@
-import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalMutation,
+  internalQuery,
+  MutationCtx,
+} from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { v, ConvexError } from "convex/values";
+import { internal } from "./_generated/api";
+import { pollSettings } from "./schema";
+import { searchText, tallyResults } from "./lib/polls";
+import { getBallotType } from "./lib/ballots";
+import { emptyTally, getTally, writeTally } from "./lib/tallies";
+import { randomToken, sha256Hex } from "./lib/crypto";
+import { DEFAULT_EMBEDDING_RETENTION_DAYS } from "./lib/faceTemplate";
+import { isOwner, requireAdmin } from "./lib/admin";
+import {
+  assertValid,
+  validateListing,
+  validatePasscode,
+  validatePoll,
+} from "./lib/validation";
+import {
+  getVisibility,
+  grantAccess,
+  hashPasscode,
+  hasAccess,
+  isRestricted,
+} from "./lib/access";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Freezes the results and schedules the face templates for deletion once
+// the poll's retention period is over.
+async function closePoll(
+  ctx: MutationCtx,
+  poll: Doc<"polls">,
+  closedAt: number,
+) {
+  await ctx.db.patch(poll._id, {
+    closedAt,
+    finalResults: await tallyResults(ctx.db, poll),
+  });
+  const retentionDays =
+    poll.settings.embeddingRetentionDays ?? DEFAULT_EMBEDDING_RETENTION_DAYS;
+  await ctx.scheduler.runAt(
+    closedAt + retentionDays * DAY_MS,
+    internal.polls.purgeEmbeddings,
+    { pollId: poll._id },
+  );
+}
 
 export const create = mutation({
   args: {
     question: v.string(),
     options: v.array(v.string()),
-    settings: v.object({
-      allowMultipleVotes: v.boolean(),
-      maxVotesPerIP: v.number(),
-      requireCaptcha: v.boolean(),
-      closeAt: v.optional(v.number()),
-    }),
+    settings: pollSettings,
     creatorFingerprint: v.optional(v.string()),
+    // Required for passcode-protected polls
+    passcode: v.optional(v.string()),
+    // Show on the explore page
+    listed: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const question = args.question.trim();
+    const options = args.options.map((option) => option.trim());
+    assertValid({
+      ...validatePoll(
+        { question, options, settings: args.settings },
+        Date.now(),
+      ),
+      ...validatePasscode(args.settings, args.passcode),
+      ...validateListing(args.settings, args.listed),
+    });
+
+    // Returned once to the creator, only the hash is kept. Signed-in
+    // creators also own the poll through their identity.
+    const adminToken = randomToken();
+    const identity = await ctx.auth.getUserIdentity();
+
     const pollId = await ctx.db.insert("polls", {
-      question: args.question,
-      options: args.options,
+      question,
+      options,
       settings: args.settings,
-      creatorFingerprint: args.creatorFingerprint,
+      ...(identity
+        ? { creatorSubject: identity.subject }
+        : { creatorFingerprint: args.creatorFingerprint }),
+      ...(args.listed && {
+        listed: true,
+        searchText: searchText(question, options),
+      }),
+      adminTokenHash: await sha256Hex(adminToken),
     });
-    return pollId;
+    if (getVisibility(args) === "passcode") {
+      await ctx.db.patch(pollId, {
+        passcodeHash: await hashPasscode(pollId, args.passcode!.trim()),
+      });
+    }
+    await writeTally(
+      ctx.db,
+      pollId,
+      emptyTally({ options, settings: args.settings }),
+    );
+
+    if (args.settings.closeAt !== undefined) {
+      await ctx.scheduler.runAt(
+        args.settings.closeAt,
+        internal.polls.closeScheduled,
+        { pollId },
+      );
+    }
+
+    // Lets the creator's browser open the poll page without unlocking it
+    const accessToken = isRestricted(args)
+      ? await grantAccess(ctx.db, pollId)
+      : undefined;
+
+    return { pollId, adminToken, accessToken };
   },
 });
 
+// Restricted polls come back as null without an access token, check
+// access.status to tell that apart from a missing poll.
 export const get = query({
+  args: { pollId: v.id("polls"), accessToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll || !(await hasAccess(ctx, poll, args.accessToken))) {
+      return null;
+    }
+    /* eslint-disable @typescript-eslint/no-unused-vars */
+    const {
+      adminTokenHash,
+      passcodeHash,
+      creatorSubject,
+      creatorFingerprint,
+      ...publicPoll
+    } = poll;
+    /* eslint-enable @typescript-eslint/no-unused-vars */
+    return { ...publicPoll, viewerIsOwner: await isOwner(ctx, poll) };
+  },
+});
+
+// For the /vote HTTP action, whose poll id comes from the request body.
+// Null when it isn't a poll id at all.
+export const normalizeId = internalQuery({
+  args: { pollId: v.string() },
+  handler: async (ctx, args) => {
+    return ctx.db.normalizeId("polls", args.pollId);
+  },
+});
+
+// Full poll document for actions, which can't read the database directly.
+export const getInternal = internalQuery({
   args: { pollId: v.id("polls") },
   handler: async (ctx, args) => {
     return await ctx.db.get(args.pollId);
@@ -32,29 +160,242 @@ export const get = query({
 });
 
 export const getResults = query({
+  args: { pollId: v.id("polls"), accessToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll || !(await hasAccess(ctx, poll, args.accessToken))) {
+      return null;
+    }
+
+    return {
+      question: poll.question,
+      ballotType: getBallotType(poll),
+      ...(await tallyResults(ctx.db, poll)),
+    };
+  },
+});
+
+// Lets the admin page check a token before showing the console.
+export const verifyAdmin = query({
+  args: { pollId: v.id("polls"), adminToken: v.string() },
+  handler: async (ctx, args) => {
+    try {
+      await requireAdmin(ctx, args.pollId, args.adminToken);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+});
+
+export const close = mutation({
+  args: { pollId: v.id("polls"), adminToken: v.string() },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    if (poll.closedAt !== undefined) return;
+    await closePoll(ctx, poll, Date.now());
+  },
+});
+
+// Scheduled for settings.closeAt. The deadline may have been moved since,
+// in which case a newer job owns the close and this one does nothing.
+export const closeScheduled = internalMutation({
   args: { pollId: v.id("polls") },
   handler: async (ctx, args) => {
     const poll = await ctx.db.get(args.pollId);
-    if (!poll) return null;
+    if (!poll || poll.closedAt !== undefined) return;
+    const { closeAt } = poll.settings;
+    if (closeAt === undefined || closeAt > Date.now()) return;
 
-    const votes = await ctx.db
+    await closePoll(ctx, poll, closeAt);
+  },
+});
+
+// Strips face templates from a closed poll's votes, keeping the votes and
+// tallies. Skipped if the poll was reopened (closing again schedules a new
+// run) or the retention period was lengthened by a later close. Works
+// through the votes a page at a time, so each run picks up where the last
+// one stopped instead of rescanning the stripped votes.
+export const purgeEmbeddings = internalMutation({
+  args: {
+    pollId: v.id("polls"),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll || poll.closedAt === undefined) return;
+    const retentionDays =
+      poll.settings.embeddingRetentionDays ?? DEFAULT_EMBEDDING_RETENTION_DAYS;
+    if (poll.closedAt + retentionDays * DAY_MS > Date.now()) return;
+
+    const page = await ctx.db
       .query("votes")
       .withIndex("by_poll", (q) => q.eq("pollId", args.pollId))
-      .collect();
+      .paginate({ numItems: 200, cursor: args.cursor ?? null });
+    for (const vote of page.page) {
+      if (vote.embedding === undefined) continue;
+      await ctx.db.patch(vote._id, { embedding: undefined });
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.polls.purgeEmbeddings, {
+        pollId: args.pollId,
+        cursor: page.continueCursor,
+      });
+    } else {
+      await ctx.db.patch(args.pollId, { embeddingsPurgedAt: Date.now() });
+    }
+  },
+});
 
-    const results = poll.options.map((option: string, index: number) => {
-      const optionVotes = votes.filter((v) => v.optionIndex === index).length;
-      return {
-        text: option,
-        votes: optionVotes,
-        percentage: votes.length > 0 ? (optionVotes / votes.length) * 100 : 0,
-      };
+export const reopen = mutation({
+  args: { pollId: v.id("polls"), adminToken: v.string() },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    const settings = { ...poll.settings };
+    // A deadline that has already passed would keep it closed
+    if (settings.closeAt !== undefined && settings.closeAt <= Date.now()) {
+      delete settings.closeAt;
+    }
+    await ctx.db.patch(args.pollId, {
+      closedAt: undefined,
+      finalResults: undefined,
+      settings,
     });
+  },
+});
 
-    return {
-      question: poll.question,
-      options: results,
-      totalVotes: votes.length,
-    };
+export const extend = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    closeAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    if (args.closeAt <= Date.now()) {
+      throw new ConvexError("New close time must be in the future");
+    }
+    await ctx.db.patch(args.pollId, {
+      closedAt: undefined,
+      finalResults: undefined,
+      settings: { ...poll.settings, closeAt: args.closeAt },
+    });
+    await ctx.scheduler.runAt(args.closeAt, internal.polls.closeScheduled, {
+      pollId: args.pollId,
+    });
+  },
+});
+
+export const setPublicExport = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    publicExport: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    await ctx.db.patch(args.pollId, {
+      settings: { ...poll.settings, publicExport: args.publicExport },
+    });
+  },
+});
+
+export const edit = mutation({
+  args: {
+    pollId: v.id("polls"),
+    adminToken: v.string(),
+    question: v.string(),
+    options: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const poll = await requireAdmin(ctx, args.pollId, args.adminToken);
+    const question = args.question.trim();
+    const options = args.options.map((option) => option.trim());
+    assertValid(validatePoll({ question, options, settings: poll.settings }));
+
+    // Editing after votes arrive would change what people voted for
+    const firstVote = await ctx.db
+      .query("votes")
+      .withIndex("by_poll", (q) => q.eq("pollId", args.pollId))
+      .first();
+    if (firstVote) {
+      throw new ConvexError("Polls can't be edited once votes have been cast");
+    }
+
+    await ctx.db.patch(args.pollId, {
+      question,
+      options,
+      ...(poll.listed && { searchText: searchText(question, options) }),
+    });
+
+    // The option count may have changed, start the counters over
+    if (await getTally(ctx.db, args.pollId)) {
+      await writeTally(ctx.db, args.pollId, emptyTally({ ...poll, options }));
+    }
+  },
+});
+
+export const remove = mutation({
+  args: { pollId: v.id("polls"), adminToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.pollId, args.adminToken);
+    await ctx.db.delete(args.pollId);
+    const tally = await getTally(ctx.db, args.pollId);
+    if (tally) await ctx.db.delete(tally._id);
+    await ctx.scheduler.runAfter(0, internal.polls.deleteVotes, {
+      pollId: args.pollId,
+    });
+  },
+});
+
+// Deletes a removed poll's votes, audit log, analytics buckets, invites,
+// access grants, abuse findings and ranking counts in batches to stay under
+// transaction limits.
+export const deleteVotes = internalMutation({
+  args: { pollId: v.id("polls") },
+  handler: async (ctx, args) => {
+    const votes = await ctx.db
+      .query("votes")
+      .withIndex("by_poll", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const entries = await ctx.db
+      .query("auditLog")
+      .withIndex("by_poll_and_seq", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const buckets = await ctx.db
+      .query("voteBuckets")
+      .withIndex("by_poll_and_hour", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const invites = await ctx.db
+      .query("pollInvites")
+      .withIndex("by_poll", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const grants = await ctx.db
+      .query("pollAccessGrants")
+      .withIndex("by_poll_and_token", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const findings = await ctx.db
+      .query("suspiciousActivity")
+      .withIndex("by_poll_and_status", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const rankings = await ctx.db
+      .query("rankingCounts")
+      .withIndex("by_poll_and_ballot", (q) => q.eq("pollId", args.pollId))
+      .take(500);
+    const batches = [
+      votes,
+      entries,
+      buckets,
+      invites,
+      grants,
+      findings,
+      rankings,
+    ];
+    for (const doc of batches.flat()) {
+      await ctx.db.delete(doc._id);
+    }
+    if (batches.some((batch) => batch.length === 500)) {
+      await ctx.scheduler.runAfter(0, internal.polls.deleteVotes, args);
+    }
   },
 });
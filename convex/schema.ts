@@ -1,30 +1,123 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const pollSettings = v.object({
+  allowMultipleVotes: v.boolean(),
+  maxVotesPerIP: v.number(),
+  requireCaptcha: v.boolean(),
+  closeAt: v.optional(v.number()),
+  // Missing on older polls, which are all single choice
+  ballotType: v.optional(
+    v.union(v.literal("single"), v.literal("multi"), v.literal("ranked")),
+  ),
+  // Only used by multi-select ballots
+  minSelections: v.optional(v.number()),
+  maxSelections: v.optional(v.number()),
+  // Rate limiting, maxVotesPerIP and maxVotesPerDevice apply per window
+  rateLimitWindowMinutes: v.optional(v.number()), // Defaults to 60
+  maxVotesPerDevice: v.optional(v.number()),
+  maxVotesPerMinute: v.optional(v.number()), // Poll-wide burst limit
+  // Face ID duplicate cutoff, defaults to DEFAULT_FACE_MATCH_THRESHOLD
+  faceMatchThreshold: v.optional(v.number()),
+  // Days after closing before face templates are deleted, defaults to 7
+  embeddingRetentionDays: v.optional(v.number()),
+  // Voters holding a receipt can change or retract their vote until close
+  allowVoteChanges: v.optional(v.boolean()),
+  // Anyone can download results and the vote timeline, not just the creator
+  publicExport: v.optional(v.boolean()),
+  // Who can see and vote on the poll, missing on older polls (public)
+  visibility: v.optional(
+    v.union(
+      v.literal("public"),
+      v.literal("unlisted"),
+      v.literal("passcode"),
+      v.literal("invite"),
+    ),
+  ),
+  // Voters must be signed in, and each account votes once instead of each
+  // device (see auth.config.ts)
+  requireIdentity: v.optional(v.boolean()),
+});
+
+export const suspiciousKind = v.union(
+  v.literal("ipBurst"),
+  v.literal("userAgentBurst"),
+  v.literal("nearDuplicateFace"),
+);
+
+export const pollResults = v.object({
+  options: v.array(
+    v.object({
+      text: v.string(),
+      votes: v.number(),
+      percentage: v.number(),
+    }),
+  ),
+  totalVotes: v.number(),
+  // Instant-runoff rounds, ranked ballots only
+  rounds: v.optional(
+    v.array(
+      v.object({
+        counts: v.array(v.number()),
+        eliminated: v.array(v.number()),
+      }),
+    ),
+  ),
+  winner: v.optional(v.union(v.number(), v.null())),
+});
+
 export default defineSchema({
   polls: defineTable({
     question: v.string(),
     options: v.array(v.string()),
     creatorFingerprint: v.optional(v.string()),
-    settings: v.object({
-      allowMultipleVotes: v.boolean(),
-      maxVotesPerIP: v.number(),
-      requireCaptcha: v.boolean(),
-      closeAt: v.optional(v.number()),
+    // Identity subject of a signed-in creator, who can manage the poll
+    // without the admin token
+    creatorSubject: v.optional(v.string()),
+    adminTokenHash: v.optional(v.string()),
+    // Passcode-protected polls only, see lib/access
+    passcodeHash: v.optional(v.string()),
+    closedAt: v.optional(v.number()),
+    // Results frozen at the moment the poll closed
+    finalResults: v.optional(pollResults),
+    embeddingsPurgedAt: v.optional(v.number()),
+    settings: pollSettings,
+    // Opted in to the explore page at creation, public polls only
+    listed: v.optional(v.boolean()),
+    // Question and options, kept for listed polls by create and edit
+    searchText: v.optional(v.string()),
+  }) // Removed explict index on _creationTime as it's built-in
+    // Signed-in creators' dashboards
+    .index("by_creator_subject", ["creatorSubject"])
+    // The explore page's recent and closing soon sorts
+    .index("by_listed", ["listed"])
+    .index("by_listed_and_close_at", ["listed", "settings.closeAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["listed"],
     }),
-  }), // Removed explict index on _creationTime as it's built-in
 
   votes: defineTable({
     pollId: v.id("polls"),
-    optionIndex: v.number(),
+    optionIndex: v.number(), // Lowest selected (multi) or first preference (ranked)
+    // Every chosen option (multi-select) or the preference order (ranked)
+    selections: v.optional(v.array(v.number())),
     voterFingerprint: v.string(),
+    // Identity subject, set when the voter was signed in
+    voterSubject: v.optional(v.string()),
     ipHash: v.string(),
     userAgent: v.string(),
     timestamp: v.number(),
+    // Keyed face template (see lib/faceTemplate), never the raw descriptor
     embedding: v.optional(v.array(v.float64())),
+    // Kept after the template is purged, for exports
+    faceVerified: v.optional(v.boolean()),
+    // Voided by the creator from the abuse review, no longer counted
+    voided: v.optional(v.boolean()),
   })
     .index("by_poll", ["pollId"])
     .index("by_poll_and_fingerprint", ["pollId", "voterFingerprint"])
+    .index("by_poll_and_subject", ["pollId", "voterSubject"])
     .index("by_poll_and_ip", ["pollId", "ipHash"])
     .index("by_fingerprint", ["voterFingerprint"])
     .index("by_timestamp", ["timestamp"])
@@ -33,4 +126,130 @@ export default defineSchema({
       dimensions: 128,
       filterFields: ["pollId"],
     }),
+
+  // One per poll, kept in step with votes by recordVote so results don't
+  // need to scan every vote
+  pollTallies: defineTable({
+    pollId: v.id("polls"),
+    totalVotes: v.number(),
+    // Approvals per option (first preferences for ranked polls)
+    optionCounts: v.array(v.number()),
+    // Only on tallies from before rankingCounts, which the next vote or
+    // tallies:check with repair moves them into
+    rankings: v.optional(
+      v.array(
+        v.object({
+          selections: v.array(v.number()),
+          count: v.number(),
+        }),
+      ),
+    ),
+  }).index("by_poll", ["pollId"]),
+
+  // Identical rankings on a ranked poll grouped together, one row each, for
+  // the runoff. Kept in step with votes alongside pollTallies.
+  rankingCounts: defineTable({
+    pollId: v.id("polls"),
+    // The selections joined with commas, see lib/tallies rankingKey
+    ballot: v.string(),
+    selections: v.array(v.number()),
+    count: v.number(),
+  }).index("by_poll_and_ballot", ["pollId", "ballot"]),
+
+  // Token buckets used by lib/rateLimit
+  rateLimits: defineTable({
+    key: v.string(),
+    tokens: v.number(),
+    updatedAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  consumedTokens: defineTable({
+    tokenHash: v.string(),
+    consumedAt: v.number(),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_consumed_at", ["consumedAt"]),
+
+  // Hourly vote counts per poll for the analytics tab (see lib/analytics)
+  voteBuckets: defineTable({
+    pollId: v.id("polls"),
+    // Start of the hour, in ms
+    hour: v.number(),
+    total: v.number(),
+    optionCounts: v.array(v.number()),
+    faceVerified: v.number(),
+    agents: v.array(
+      v.object({
+        browser: v.string(),
+        os: v.string(),
+        device: v.string(),
+        count: v.number(),
+      }),
+    ),
+  }).index("by_poll_and_hour", ["pollId", "hour"]),
+
+  // Clusters of votes flagged by abuse.analyze for the creator to review
+  suspiciousActivity: defineTable({
+    pollId: v.id("polls"),
+    kind: suspiciousKind,
+    // What the cluster shares (IP hash, user agent, or the vote pair), so
+    // later runs extend the same finding instead of repeating it
+    subject: v.string(),
+    voteIds: v.array(v.id("votes")),
+    detail: v.string(),
+    detectedAt: v.number(),
+    status: v.union(
+      v.literal("open"),
+      v.literal("dismissed"),
+      v.literal("voided"),
+    ),
+  })
+    .index("by_poll_and_subject", ["pollId", "kind", "subject"])
+    .index("by_poll_and_status", ["pollId", "status"]),
+
+  // Public, hash-chained record of every vote change (see lib/audit)
+  auditLog: defineTable({
+    pollId: v.id("polls"),
+    seq: v.number(),
+    kind: v.union(
+      v.literal("cast"),
+      v.literal("change"),
+      v.literal("retract"),
+      v.literal("void"),
+    ),
+    // SHA-256 of the vote's receipt
+    receiptId: v.string(),
+    // The ballot after this entry, absent for retractions and voids
+    optionIndex: v.optional(v.number()),
+    selections: v.optional(v.array(v.number())),
+    timestamp: v.number(),
+    prevHash: v.string(),
+    hash: v.string(),
+  }).index("by_poll_and_seq", ["pollId", "seq"]),
+
+  // Single-use invite codes for invite-only polls, only the hash is kept
+  pollInvites: defineTable({
+    pollId: v.id("polls"),
+    codeHash: v.string(),
+    label: v.optional(v.string()),
+    createdAt: v.number(),
+    redeemedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_poll", ["pollId"])
+    .index("by_code_hash", ["codeHash"]),
+
+  // Access tokens handed out for a passcode, an invite or the admin token
+  pollAccessGrants: defineTable({
+    pollId: v.id("polls"),
+    tokenHash: v.string(),
+    // Set for grants from an invite, so revoking the invite revokes them
+    inviteId: v.optional(v.id("pollInvites")),
+    grantedAt: v.number(),
+  })
+    .index("by_poll_and_token", ["pollId", "tokenHash"])
+    .index("by_invite", ["inviteId"]),
 });
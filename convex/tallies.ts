@@ -0,0 +1,72 @@
+import { internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import {
+  computeTally,
+  getTally,
+  loadTally,
+  TallyCounts,
+  writeTally,
+} from "./lib/tallies";
+
+// One-off migration creating tallies for polls that predate them. Works a
+// page of polls at a time and schedules itself for the next page:
+//   npx convex run tallies:backfill
+export const backfill = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("polls")
+      .paginate({ numItems: 20, cursor: args.cursor ?? null });
+
+    for (const poll of page.page) {
+      if (await getTally(ctx.db, poll._id)) continue;
+      const votes = await ctx.db
+        .query("votes")
+        .withIndex("by_poll", (q) => q.eq("pollId", poll._id))
+        .collect();
+      await writeTally(ctx.db, poll._id, computeTally(poll, votes));
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.tallies.backfill, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Re-derives a poll's counts from its votes and compares them with the
+// stored tally. Pass repair: true to overwrite the tally when they differ:
+//   npx convex run tallies:check '{"pollId": "...", "repair": true}'
+export const check = internalMutation({
+  args: { pollId: v.id("polls"), repair: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll) throw new Error("Poll not found");
+
+    const votes = await ctx.db
+      .query("votes")
+      .withIndex("by_poll", (q) => q.eq("pollId", args.pollId))
+      .collect();
+    const expected = computeTally(poll, votes);
+    const stored = await loadTally(ctx.db, poll);
+    // Rankings are grouped in arrival order, compare them order-independently
+    const normalize = (t: TallyCounts | null) =>
+      t &&
+      JSON.stringify({
+        totalVotes: t.totalVotes,
+        optionCounts: t.optionCounts,
+        rankings: t.rankings
+          ?.map((r) => `${r.selections.join(",")}:${r.count}`)
+          .sort(),
+      });
+    const consistent = normalize(stored) === normalize(expected);
+
+    if (!consistent && args.repair) {
+      await writeTally(ctx.db, args.pollId, expected);
+    }
+
+    return { consistent, expected, stored };
+  },
+});
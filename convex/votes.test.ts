@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConvexError } from "convex/values";
+import { ActionCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { verifyAndRecord } from "./votes";
+import { hashToken, localVerifier } from "./lib/turnstile";
+
+const vote = {
+  pollId: "poll123" as Id<"polls">,
+  optionIndex: 0,
+  voterFingerprint: "fingerprint",
+  ipHash: "iphash",
+  userAgent: "test",
+  remoteIp: "127.0.0.1",
+};
+
+// Stands in for the action context, recording what reaches recordVote
+function fakeCtx() {
+  const recorded: Record<string, unknown>[] = [];
+  const ctx = {
+    runMutation: async (_ref: unknown, args: Record<string, unknown>) => {
+      recorded.push(args);
+      return { receipt: "receipt", receiptId: "receiptId" };
+    },
+  } as unknown as ActionCtx;
+  return { ctx, recorded };
+}
+
+test("records a vote with the hash of an accepted token", async () => {
+  const { ctx, recorded } = fakeCtx();
+  await verifyAndRecord(ctx, { ...vote, token: "ok-token" }, localVerifier);
+
+  assert.equal(recorded.length, 1);
+  assert.equal(recorded[0].tokenHash, await hashToken("ok-token"));
+  // Only forwarded to the verifier, never stored
+  assert.equal(recorded[0].remoteIp, undefined);
+  assert.equal(recorded[0].token, undefined);
+});
+
+test("rejects a vote whose token fails verification", async () => {
+  const { ctx, recorded } = fakeCtx();
+  await assert.rejects(
+    verifyAndRecord(ctx, { ...vote, token: "fail-token" }, localVerifier),
+    (err) =>
+      err instanceof ConvexError &&
+      err.data === "Bot verification failed. Please try again.",
+  );
+  assert.equal(recorded.length, 0);
+});
+
+test("records a vote without a token and no token hash", async () => {
+  const { ctx, recorded } = fakeCtx();
+  await verifyAndRecord(ctx, vote, localVerifier);
+
+  assert.equal(recorded.length, 1);
+  assert.equal(recorded[0].tokenHash, undefined);
+});
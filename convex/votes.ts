@@ -1,8 +1,32 @@
-import { mutation, query, action, internalMutation } from "./_generated/server";
+import {
+  query,
+  mutation,
+  internalAction,
+  internalMutation,
+  ActionCtx,
+} from "./_generated/server";
 import { v, ConvexError } from "convex/values";
 import { DatabaseReader } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { isPollClosed } from "./lib/polls";
+import { normalizeSelections } from "./lib/ballots";
+import { isValidOptionIndex } from "./lib/validation";
+import { requireAccess } from "./lib/access";
+import { moveVote, updateTally } from "./lib/tallies";
+import { consumeRateLimits, RateLimit } from "./lib/rateLimit";
+import {
+  cosineSimilarity,
+  DEFAULT_FACE_MATCH_THRESHOLD,
+  FACE_INDEX_LAG_MS,
+  FACE_MATCH_CANDIDATES,
+  isFaceMatch,
+} from "./lib/faceMatch";
+import { toFaceTemplate } from "./lib/faceTemplate";
+import { signReceipt, verifyReceipt, VoteReceipt } from "./lib/receipts";
+import { appendAuditEntry, toReceiptId } from "./lib/audit";
+import { moveBucketVote, updateBuckets } from "./lib/analytics";
+import { getVerifier, hashToken, TurnstileVerifier } from "./lib/turnstile";
 
 // Helper to check if a user has already voted
 async function hasUserVoted(
@@ -20,233 +44,353 @@ async function hasUserVoted(
   return !!voteByFingerprint;
 }
 
-export const cast = mutation({
-  args: {
-    pollId: v.id("polls"),
-    optionIndex: v.number(),
-    voterFingerprint: v.string(),
-    ipAddress: v.string(), // We will hash this
-    userAgent: v.string(),
-    token: v.optional(v.string()), // Turnstile token
-  },
-  handler: async (ctx, args) => {
-    // 1. Verify Turnstile Token if provided
-    if (args.token) {
-      const secretKey = process.env.CLOUDFLARE_TURNSTILE_SECRET_KEY;
-      if (secretKey) {
-        const ip = args.ipAddress;
-        // Note: For mutation, we can't easily fetch().
-        // Turnstile verification involves fetch().
-        // Mutations in Convex should be deterministic and usually can't fetch.
-        // But in the original code, it WAS verifying Turnstile?
-        // Wait, `cast` logic in original file had `fetch`?
-        // Let's check original.
-        // "const result = await fetch(...)"
-        // Convex actions can fetch key. Mutations cannot?
-        // Actually, Convex generic mutations CANNOT fetch.
-        // So the original code must have been broken or `cast` was an action?
-        // Original code: `export const cast = mutation({...})`.
-        // This suggests the original code was possibly invalid if it used fetch in a mutation?
-        // OR Convex allows fetch in mutations now? (Unlikely).
-        // OR `cast` logic was not actually using fetch in the snippet I saw?
-        //
-        // Let's review the original file content from Step 5.
-        // Line 46: `const result = await fetch(...)` inside `mutation`.
-        // This is definitely suspicious for Convex.
-        // Maybe it's a Node.js runtime environment where it's allowed but discouraged?
-        // Or maybe I misread `mutation` vs `action`.
-        // "import { mutation, query } from './_generated/server';"
-        // It says `mutation`.
-        //
-        // If the original code works, maybe I should assume it works.
-        // But logically, `fetch` in mutation is a no-no.
-        //
-        // However, for Face Auth, we use `action`.
-        // For `cast` (legacy), I will restore the original logic exactly as it was.
-      }
-    }
+async function hasAccountVoted(
+  db: DatabaseReader,
+  pollId: Id<"polls">,
+  subject: string,
+) {
+  const vote = await db
+    .query("votes")
+    .withIndex("by_poll_and_subject", (q) =>
+      q.eq("pollId", pollId).eq("voterSubject", subject),
+    )
+    .first();
+  return !!vote;
+}
 
-    // RESTORING ORIGINAL LOGIC (assuming it worked or was intended to work)
-    if (args.token) {
-      const secretKey = process.env.CLOUDFLARE_TURNSTILE_SECRET_KEY;
-      if (secretKey) {
-        const formData = new FormData();
-        formData.append("secret", secretKey);
-        formData.append("response", args.token);
-        formData.append("remoteip", args.ipAddress);
-
-        const result = await fetch(
-          "https://challenges.cloudflare.com/turnstile/v0/siteverify",
-          { method: "POST", body: formData },
-        );
-        const outcome = await result.json();
-        if (!outcome.success) {
-          throw new ConvexError("Bot verification failed. Please try again.");
-        }
-      }
-    }
+// Every bucket a vote on this poll draws from: the network, optionally the
+// device, and optionally a poll-wide burst limit.
+function pollRateLimits(
+  poll: Doc<"polls">,
+  ipHash: string,
+  fingerprint: string,
+): RateLimit[] {
+  const windowMinutes = poll.settings.rateLimitWindowMinutes ?? 60;
+  const windowMs = windowMinutes * 60000;
+  const per = windowMinutes === 60 ? "hour" : `${windowMinutes} minutes`;
 
-    const poll = await ctx.db.get(args.pollId);
-    if (!poll) {
-      throw new ConvexError("Poll not found");
-    }
+  const maxVotes = poll.settings.maxVotesPerIP || 3;
+  const limits: RateLimit[] = [
+    {
+      key: `ip:${poll._id}:${ipHash}`,
+      limit: maxVotes,
+      windowMs,
+      message: `Rate limit exceeded. You can only vote ${maxVotes} times per ${per} per network.`,
+    },
+  ];
 
-    if (poll.settings.closeAt && Date.now() > poll.settings.closeAt) {
-      throw new ConvexError("Poll is closed");
-    }
+  const maxPerDevice = poll.settings.maxVotesPerDevice;
+  if (maxPerDevice) {
+    limits.push({
+      key: `fingerprint:${poll._id}:${fingerprint}`,
+      limit: maxPerDevice,
+      windowMs,
+      message: `Rate limit exceeded. You can only vote ${maxPerDevice} times per ${per} from this device.`,
+    });
+  }
 
-    const ipHash = args.ipAddress;
+  const maxPerMinute = poll.settings.maxVotesPerMinute;
+  if (maxPerMinute) {
+    limits.push({
+      key: `poll:${poll._id}`,
+      limit: maxPerMinute,
+      windowMs: 60000,
+      message: "This poll is receiving too many votes right now.",
+    });
+  }
 
-    if (!poll.settings.allowMultipleVotes) {
-      const alreadyVoted = await hasUserVoted(
-        ctx.db,
-        args.pollId,
-        args.voterFingerprint,
-      );
-      if (alreadyVoted) {
-        throw new ConvexError("You have already voted on this device.");
-      }
-    }
+  return limits;
+}
 
-    // Check Rate Limits (IP based)
-    const oneHourAgo = Date.now() - 3600000;
-    const recentVotesFromIP = await ctx.db
-      .query("votes")
-      .withIndex("by_poll_and_ip", (q) =>
-        q.eq("pollId", args.pollId).eq("ipHash", ipHash),
-      )
-      .filter((q) => q.gte(q.field("timestamp"), oneHourAgo))
-      .collect();
+const voteArgs = {
+  pollId: v.id("polls"),
+  optionIndex: v.number(),
+  selections: v.optional(v.array(v.number())), // Multi-select and ranked polls
+  voterFingerprint: v.string(),
+  ipHash: v.string(), // Computed by the /vote HTTP action, never by the client
+  userAgent: v.string(),
+  // Passcode and invite-only polls, see lib/access
+  accessToken: v.optional(v.string()),
+  // From the request's identity token in the /vote HTTP action
+  voterSubject: v.optional(v.string()),
+};
 
-    const maxVotes = poll.settings.maxVotesPerIP || 3;
+type VerifiedVoteArgs = {
+  pollId: Id<"polls">;
+  optionIndex: number;
+  selections?: number[];
+  voterFingerprint: string;
+  ipHash: string;
+  userAgent: string;
+  accessToken?: string;
+  voterSubject?: string;
+  remoteIp: string;
+  token?: string;
+  embedding?: number[];
+  faceSearchedAt?: number;
+};
 
-    if (recentVotesFromIP.length >= maxVotes) {
-      throw new ConvexError(
-        `Rate limit exceeded. You can only vote ${maxVotes} times per hour per network.`,
-      );
+// Shared verification pipeline for both voting paths: check the Turnstile
+// token, then hand off to recordVote which marks the token consumed in the
+// same transaction as the vote so it can't be replayed.
+export async function verifyAndRecord(
+  ctx: ActionCtx,
+  args: VerifiedVoteArgs,
+  verifier: TurnstileVerifier | null = getVerifier(),
+): Promise<VoteReceipt> {
+  const { token, remoteIp, ...vote } = args;
+
+  let tokenHash: string | undefined;
+  if (token && verifier) {
+    if (!(await verifier(token, remoteIp))) {
+      throw new ConvexError("Bot verification failed. Please try again.");
     }
+    tokenHash = await hashToken(token);
+  } else if (token) {
+    console.warn("Turnstile token received but no verifier is configured");
+  }
 
-    await ctx.db.insert("votes", {
-      pollId: args.pollId,
-      optionIndex: args.optionIndex,
-      voterFingerprint: args.voterFingerprint,
-      ipHash: ipHash,
-      userAgent: args.userAgent,
-      timestamp: Date.now(),
-    });
+  return await ctx.runMutation(internal.votes.recordVote, {
+    ...vote,
+    tokenHash,
+  });
+}
 
-    return true;
+export const cast = internalAction({
+  args: {
+    ...voteArgs,
+    remoteIp: v.string(), // Only forwarded to Turnstile, never stored
+    token: v.optional(v.string()), // Turnstile token
+  },
+  handler: async (ctx, args): Promise<VoteReceipt> => {
+    return await verifyAndRecord(ctx, args);
   },
 });
 
 export const recordVote = internalMutation({
   args: {
-    pollId: v.id("polls"),
-    optionIndex: v.number(),
-    voterFingerprint: v.string(),
-    ipAddress: v.string(),
-    userAgent: v.string(),
-    embedding: v.array(v.float64()),
+    ...voteArgs,
+    embedding: v.optional(v.array(v.float64())),
+    // When castWithFace ran its vector search
+    faceSearchedAt: v.optional(v.number()),
+    tokenHash: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    if (args.tokenHash) {
+      const consumed = await ctx.db
+        .query("consumedTokens")
+        .withIndex("by_token_hash", (q) => q.eq("tokenHash", args.tokenHash!))
+        .first();
+      if (consumed) {
+        throw new ConvexError(
+          "Verification already used. Please complete the check again.",
+        );
+      }
+    }
+
     const poll = await ctx.db.get(args.pollId);
     if (!poll) throw new ConvexError("Poll not found");
-    if (poll.settings.closeAt && Date.now() > poll.settings.closeAt)
-      throw new ConvexError("Poll is closed");
+    await requireAccess(ctx, poll, args.accessToken);
+    if (isPollClosed(poll)) throw new ConvexError("Poll is closed");
+
+    // A token only gets this far (as tokenHash) once it has been verified
+    if (poll.settings.requireCaptcha && !args.tokenHash) {
+      throw new ConvexError("Please complete the bot check before voting.");
+    }
 
-    const ipHash = args.ipAddress;
+    const selections = normalizeSelections(poll, args.selections);
+    if (!selections && !isValidOptionIndex(poll, args.optionIndex)) {
+      throw new ConvexError("Invalid option selected.");
+    }
+    const ipHash = args.ipHash;
 
-    if (!poll.settings.allowMultipleVotes) {
+    // Polls requiring sign-in count one vote per account, not per device
+    if (poll.settings.requireIdentity) {
+      if (!args.voterSubject) {
+        throw new ConvexError("Sign in to vote in this poll.");
+      }
+      if (
+        !poll.settings.allowMultipleVotes &&
+        (await hasAccountVoted(ctx.db, args.pollId, args.voterSubject))
+      ) {
+        throw new ConvexError("You have already voted with this account.");
+      }
+    } else if (!poll.settings.allowMultipleVotes) {
       if (await hasUserVoted(ctx.db, args.pollId, args.voterFingerprint)) {
         throw new ConvexError("You have already voted on this device.");
       }
     }
 
-    const oneHourAgo = Date.now() - 3600000;
-    const recentVotesFromIP = await ctx.db
-      .query("votes")
-      .withIndex("by_poll_and_ip", (q) =>
-        q.eq("pollId", args.pollId).eq("ipHash", ipHash),
-      )
-      .filter((q) => q.gte(q.field("timestamp"), oneHourAgo))
-      .collect();
+    // The vector search ran outside this transaction, so two submissions of
+    // the same face can both pass it. Compare against every face vote since
+    // shortly before that search here: the read covers the index range, so a
+    // concurrent insert makes one of the two transactions retry and see the
+    // other's vote.
+    if (args.embedding) {
+      const threshold =
+        poll.settings.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD;
+      const since = (args.faceSearchedAt ?? 0) - FACE_INDEX_LAG_MS;
+      const recentVotes = await ctx.db
+        .query("votes")
+        .withIndex("by_poll", (q) =>
+          q.eq("pollId", args.pollId).gte("_creationTime", since),
+        )
+        .collect();
+      const duplicate = recentVotes.some(
+        (vote) =>
+          vote.embedding &&
+          isFaceMatch(
+            cosineSimilarity(vote.embedding, args.embedding!),
+            threshold,
+          ),
+      );
+      if (duplicate) {
+        throw new ConvexError("You have already voted (Face ID detected).");
+      }
+    }
 
-    const maxVotes = poll.settings.maxVotesPerIP || 3;
-    if (recentVotesFromIP.length >= maxVotes) {
-      throw new ConvexError(`Rate limit exceeded.`);
+    await consumeRateLimits(
+      ctx.db,
+      pollRateLimits(poll, ipHash, args.voterFingerprint),
+    );
+
+    if (args.tokenHash) {
+      await ctx.db.insert("consumedTokens", {
+        tokenHash: args.tokenHash,
+        consumedAt: Date.now(),
+      });
     }
 
-    await ctx.db.insert("votes", {
+    const optionIndex = selections ? selections[0] : args.optionIndex;
+    const vote = {
       pollId: args.pollId,
-      optionIndex: args.optionIndex,
+      optionIndex,
+      selections,
       voterFingerprint: args.voterFingerprint,
+      voterSubject: args.voterSubject,
       ipHash: ipHash,
       userAgent: args.userAgent,
       timestamp: Date.now(),
       embedding: args.embedding,
+      faceVerified: args.embedding !== undefined,
+    };
+    const voteId = await ctx.db.insert("votes", vote);
+    await updateTally(ctx.db, poll, vote, 1);
+    await updateBuckets(ctx.db, poll, vote, 1);
+
+    const receipt = await signReceipt(voteId);
+    const receiptId = await toReceiptId(receipt);
+    await appendAuditEntry(ctx.db, poll._id, {
+      kind: "cast",
+      receiptId,
+      optionIndex,
+      selections,
     });
+
+    return { receipt, receiptId };
   },
 });
 
-export const castWithFace = action({
+export const castWithFace = internalAction({
   args: {
-    pollId: v.id("polls"),
-    optionIndex: v.number(),
-    voterFingerprint: v.string(),
-    ipAddress: v.string(),
-    userAgent: v.string(),
+    ...voteArgs,
+    remoteIp: v.string(),
     embedding: v.array(v.float64()),
     token: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
-    if (args.token) {
-      const secretKey = process.env.CLOUDFLARE_TURNSTILE_SECRET_KEY;
-      if (secretKey) {
-        const formData = new FormData();
-        formData.append("secret", secretKey);
-        formData.append("response", args.token);
-        formData.append("remoteip", args.ipAddress);
-
-        const result = await fetch(
-          "https://challenges.cloudflare.com/turnstile/v0/siteverify",
-          { method: "POST", body: formData },
-        );
+  handler: async (ctx, args): Promise<VoteReceipt> => {
+    const poll = await ctx.runQuery(internal.polls.getInternal, {
+      pollId: args.pollId,
+    });
+    if (!poll) throw new ConvexError("Poll not found");
+    // Checked again when recording, but not even the face search should run
+    // for someone without access
+    const allowed = await ctx.runQuery(internal.access.check, {
+      pollId: args.pollId,
+      accessToken: args.accessToken,
+    });
+    if (!allowed) throw new ConvexError("This poll is private");
+    const threshold =
+      poll.settings.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD;
 
-        const outcome = await result.json();
-        if (!outcome.success) {
-          throw new ConvexError("Bot verification failed. Please try again.");
-        }
-      }
-    }
+    // Everything from here on, including storage, uses the keyed template
+    const template = await toFaceTemplate(args.pollId, args.embedding);
 
+    const faceSearchedAt = Date.now();
     const similarVotes = await ctx.vectorSearch("votes", "by_embedding", {
-      vector: args.embedding,
-      limit: 1,
+      vector: template,
+      limit: FACE_MATCH_CANDIDATES,
       filter: (q) => q.eq("pollId", args.pollId),
     });
 
-    if (similarVotes.length > 0) {
-      if (similarVotes[0]._score > 0.95) {
-        throw new ConvexError("You have already voted (Face ID detected).");
-      }
+    if (similarVotes.some((match) => isFaceMatch(match._score, threshold))) {
+      throw new ConvexError("You have already voted (Face ID detected).");
     }
 
-    await ctx.runMutation(internal.votes.recordVote, {
-      pollId: args.pollId,
-      optionIndex: args.optionIndex,
-      voterFingerprint: args.voterFingerprint,
-      ipAddress: args.ipAddress,
-      userAgent: args.userAgent,
-      embedding: args.embedding,
+    return await verifyAndRecord(ctx, {
+      ...args,
+      embedding: template,
+      faceSearchedAt,
     });
+  },
+});
 
-    return true;
+// Turnstile tokens expire after 5 minutes, so consumed ones older than that
+// can never be replayed and don't need to be kept.
+export const purgeConsumedTokens = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - 10 * 60 * 1000;
+    const expired = await ctx.db
+      .query("consumedTokens")
+      .withIndex("by_consumed_at", (q) => q.lt("consumedAt", cutoff))
+      .take(500);
+    for (const token of expired) {
+      await ctx.db.delete(token._id);
+    }
+    // A full batch means there may be more, keep going until one comes up short
+    if (expired.length === 500) {
+      await ctx.scheduler.runAfter(0, internal.votes.purgeConsumedTokens);
+    }
+  },
+});
+
+// Rate limit buckets that have refilled are indistinguishable from missing
+// ones, so they can be dropped.
+export const purgeRateLimits = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_expires_at", (q) => q.lt("expiresAt", Date.now()))
+      .take(500);
+    for (const bucket of expired) {
+      await ctx.db.delete(bucket._id);
+    }
+    if (expired.length === 500) {
+      await ctx.scheduler.runAfter(0, internal.votes.purgeRateLimits);
+    }
   },
 });
 
 export const hasVoted = query({
-  args: { pollId: v.id("polls"), fingerprint: v.string() },
+  args: {
+    pollId: v.id("polls"),
+    fingerprint: v.string(),
+    accessToken: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll) return false;
+    await requireAccess(ctx, poll, args.accessToken);
+    if (poll.settings.requireIdentity) {
+      const identity = await ctx.auth.getUserIdentity();
+      return (
+        !!identity &&
+        (await hasAccountVoted(ctx.db, args.pollId, identity.subject))
+      );
+    }
+
     const vote = await ctx.db
       .query("votes")
       .withIndex("by_poll_and_fingerprint", (q) =>
@@ -256,3 +400,121 @@ export const hasVoted = query({
     return !!vote;
   },
 });
+
+// The caller's own votes on a poll, found by device fingerprint, signed-in
+// account and by any receipts they kept. Votes matched by receipt carry it back so the client
+// knows which ones it can change.
+export const myVotes = query({
+  args: {
+    pollId: v.id("polls"),
+    fingerprint: v.string(),
+    receipts: v.optional(v.array(v.string())),
+    accessToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const poll = await ctx.db.get(args.pollId);
+    if (!poll) return [];
+    await requireAccess(ctx, poll, args.accessToken);
+
+    const byFingerprint = await ctx.db
+      .query("votes")
+      .withIndex("by_poll_and_fingerprint", (q) =>
+        q.eq("pollId", args.pollId).eq("voterFingerprint", args.fingerprint),
+      )
+      .collect();
+
+    const votes = new Map<
+      Id<"votes">,
+      { vote: Doc<"votes">; receipt: string | null }
+    >();
+    const identity = await ctx.auth.getUserIdentity();
+    const byAccount = identity
+      ? await ctx.db
+          .query("votes")
+          .withIndex("by_poll_and_subject", (q) =>
+            q.eq("pollId", args.pollId).eq("voterSubject", identity.subject),
+          )
+          .collect()
+      : [];
+    for (const vote of [...byFingerprint, ...byAccount]) {
+      votes.set(vote._id, { vote, receipt: null });
+    }
+    for (const receipt of args.receipts ?? []) {
+      const voteId = await verifyReceipt(receipt);
+      const vote = voteId && (await ctx.db.get(voteId));
+      if (vote && vote.pollId === args.pollId) {
+        votes.set(vote._id, { vote, receipt });
+      }
+    }
+
+    return [...votes.values()]
+      .sort((a, b) => a.vote.timestamp - b.vote.timestamp)
+      .map(({ vote, receipt }) => ({
+        optionIndex: vote.optionIndex,
+        selections: vote.selections,
+        timestamp: vote.timestamp,
+        voided: vote.voided ?? false,
+        receipt,
+      }));
+  },
+});
+
+// Loads the vote behind a receipt and checks it can still be changed.
+async function changeableVote(db: DatabaseReader, receipt: string) {
+  const voteId = await verifyReceipt(receipt);
+  const vote = voteId && (await db.get(voteId));
+  if (!vote) throw new ConvexError("Vote not found");
+  if (vote.voided) {
+    throw new ConvexError("This vote was voided by the poll creator");
+  }
+
+  const poll = await db.get(vote.pollId);
+  if (!poll) throw new ConvexError("Poll not found");
+  if (!poll.settings.allowVoteChanges) {
+    throw new ConvexError("This poll doesn't allow changing votes");
+  }
+  if (isPollClosed(poll)) throw new ConvexError("Poll is closed");
+
+  return { vote, poll };
+}
+
+export const changeVote = mutation({
+  args: {
+    receipt: v.string(),
+    optionIndex: v.number(),
+    selections: v.optional(v.array(v.number())),
+  },
+  handler: async (ctx, args) => {
+    const { vote, poll } = await changeableVote(ctx.db, args.receipt);
+
+    const selections = normalizeSelections(poll, args.selections);
+    const optionIndex = selections ? selections[0] : args.optionIndex;
+    if (!isValidOptionIndex(poll, optionIndex)) {
+      throw new ConvexError("Invalid option selected.");
+    }
+
+    await ctx.db.patch(vote._id, { optionIndex, selections });
+    await moveVote(ctx.db, poll, vote, { optionIndex, selections });
+    await moveBucketVote(ctx.db, poll, vote, { optionIndex, selections });
+    await appendAuditEntry(ctx.db, poll._id, {
+      kind: "change",
+      receiptId: await toReceiptId(args.receipt),
+      optionIndex,
+      selections,
+    });
+  },
+});
+
+export const retractVote = mutation({
+  args: { receipt: v.string() },
+  handler: async (ctx, args) => {
+    const { vote, poll } = await changeableVote(ctx.db, args.receipt);
+    await ctx.db.delete(vote._id);
+    await updateTally(ctx.db, poll, vote, -1);
+    await updateBuckets(ctx.db, poll, vote, -1);
+    await appendAuditEntry(ctx.db, poll._id, {
+      kind: "retract",
+      receiptId: await toReceiptId(args.receipt),
+    });
+  },
+});
@@ -0,0 +1,87 @@
+/**
+ * Reports false-accept and false-reject rates of the Face ID duplicate check
+ * at every threshold a poll can be set to, using the same scoring as
+ * castWithFace.
+ *
+ * Usage: pnpm calibrate:face samples.json
+ *
+ * samples.json is an array of labelled face-api.js descriptors, several per
+ * person, taken under the conditions voters will actually be in:
+ *   [{ "person": "alice", "descriptor": [0.01, ...128 numbers] }, ...]
+ *
+ * Pairs of the same person should score above the threshold (or a returning
+ * voter gets through: a false reject), pairs of different people below it
+ * (or a new voter is blocked: a false accept).
+ */
+import { readFileSync } from "node:fs";
+import {
+  cosineSimilarity,
+  DEFAULT_FACE_MATCH_THRESHOLD,
+  isFaceMatch,
+} from "../convex/lib/faceMatch";
+import { FACE_MATCH_THRESHOLD_RANGE } from "../convex/lib/validation";
+
+type Sample = { person: string; descriptor: number[] };
+
+const file = process.argv[2];
+if (!file) {
+  console.error("Usage: pnpm calibrate:face <samples.json>");
+  process.exit(1);
+}
+
+const samples: Sample[] = JSON.parse(readFileSync(file, "utf8"));
+
+const genuine: number[] = [];
+const impostor: number[] = [];
+for (let i = 0; i < samples.length; i++) {
+  for (let j = i + 1; j < samples.length; j++) {
+    const score = cosineSimilarity(
+      samples[i].descriptor,
+      samples[j].descriptor,
+    );
+    if (samples[i].person === samples[j].person) {
+      genuine.push(score);
+    } else {
+      impostor.push(score);
+    }
+  }
+}
+
+if (genuine.length === 0 || impostor.length === 0) {
+  console.error(
+    "Need at least two samples of one person and samples of two people.",
+  );
+  process.exit(1);
+}
+
+console.log(
+  `${samples.length} samples, ${genuine.length} same-person pairs, ${impostor.length} different-person pairs\n`,
+);
+console.log("threshold  false accept  false reject");
+
+let best = { threshold: DEFAULT_FACE_MATCH_THRESHOLD, error: Infinity };
+// The whole range validation accepts, so the report covers every setting
+const minPercent = Math.round(FACE_MATCH_THRESHOLD_RANGE.min * 100);
+const maxPercent = Math.round(FACE_MATCH_THRESHOLD_RANGE.max * 100);
+for (let t = minPercent; t <= maxPercent; t++) {
+  const threshold = t / 100;
+  // Different people judged the same: a new voter would be blocked
+  const falseAccept =
+    impostor.filter((s) => isFaceMatch(s, threshold)).length / impostor.length;
+  // Same person judged different: a repeat vote would get through
+  const falseReject =
+    genuine.filter((s) => !isFaceMatch(s, threshold)).length / genuine.length;
+
+  const marker =
+    threshold === DEFAULT_FACE_MATCH_THRESHOLD ? "  (default)" : "";
+  console.log(
+    `${threshold.toFixed(2).padStart(9)}  ${(falseAccept * 100).toFixed(2).padStart(11)}%  ${(falseReject * 100).toFixed(2).padStart(11)}%${marker}`,
+  );
+
+  const error = Math.max(falseAccept, falseReject);
+  if (error < best.error) best = { threshold, error };
+}
+
+console.log(
+  `\nClosest to equal error rate: ${best.threshold.toFixed(2)} (${(best.error * 100).toFixed(2)}%)`,
+);
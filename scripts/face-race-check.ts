@@ -0,0 +1,74 @@
+/**
+ * Fires concurrent duplicate Face ID votes at a running deployment and
+ * checks that exactly one is accepted.
+ *
+ * Usage: NEXT_PUBLIC_CONVEX_URL=https://<dev>.convex.cloud pnpm test:face-race
+ *
+ * Run it against a dev deployment with IP_HASH_SECRET, FACE_TEMPLATE_SECRET
+ * and RECEIPT_SECRET set, or every vote fails with a 500 instead. It creates
+ * a throwaway poll without a captcha, so no Turnstile token is needed.
+ */
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../convex/_generated/api";
+
+const CONCURRENT_VOTES = Number(process.env.CONCURRENT_VOTES || 8);
+
+const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+if (!convexUrl) {
+  console.error("Set NEXT_PUBLIC_CONVEX_URL to the deployment to test.");
+  process.exit(1);
+}
+const siteUrl =
+  process.env.NEXT_PUBLIC_CONVEX_SITE_URL ||
+  convexUrl.replace(/\.cloud$/, ".site");
+
+async function main() {
+  const client = new ConvexHttpClient(convexUrl!);
+  const { pollId } = await client.mutation(api.polls.create, {
+    question: `Face race check ${new Date().toISOString()}`,
+    options: ["A", "B"],
+    settings: {
+      allowMultipleVotes: false,
+      // High enough that only the face check can reject these votes
+      maxVotesPerIP: 100,
+      requireCaptcha: false,
+    },
+  });
+
+  // One face, slightly different on every submission, from different devices
+  const face = Array.from({ length: 128 }, () => Math.random() - 0.5);
+  const responses = await Promise.all(
+    Array.from({ length: CONCURRENT_VOTES }, (_, i) =>
+      fetch(`${siteUrl}/vote`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          pollId,
+          optionIndex: i % 2,
+          voterFingerprint: `face-race-${i}-${Date.now()}`,
+          userAgent: "face-race-check",
+          embedding: face.map((x) => x + (Math.random() - 0.5) * 0.001),
+        }),
+      }).then(async (res) => ({ ok: res.ok, body: await res.json() })),
+    ),
+  );
+
+  const accepted = responses.filter((r) => r.ok);
+  for (const r of responses.filter((r) => !r.ok)) {
+    console.log(`rejected: ${r.body.error}`);
+  }
+  console.log(
+    `${accepted.length} of ${CONCURRENT_VOTES} concurrent duplicate votes accepted (poll ${pollId})`,
+  );
+
+  if (accepted.length !== 1) {
+    console.error("FAIL: expected exactly one vote to be accepted");
+    process.exit(1);
+  }
+  console.log("PASS");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});